@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { 
   Play, 
   Pause, 
@@ -13,198 +13,487 @@ import {
   File,
   X,
   Eye,
-  Wand2
+  Wand2,
+  MapIcon,
+  RotateCcw,
+  History,
+  StepForward,
+  Crosshair,
+  BookOpen,
+  Languages,
+  GitCompare,
+  Radar,
+  Newspaper
 } from 'lucide-react';
 import LogViewer from './components/LogViewer';
 import StatsPanel from './components/StatsPanel';
-import { CrawlConfig, CrawlStatus, CrawledPage, LogEntry } from './types';
-import { fetchUrlContent, parseHtml, downloadAsTextFile, generatePaginatedUrls } from './services/crawlerService';
-import { summarizeContent } from './services/geminiService';
+import UrlRulesPanel from './components/UrlRulesPanel';
+import SessionPanel from './components/SessionPanel';
+import ProxyHealthPanel from './components/ProxyHealthPanel';
+import ExtractionProfilesPanel from './components/ExtractionProfilesPanel';
+import ExtractionSchemaPanel from './components/ExtractionSchemaPanel';
+import RecordsTable from './components/RecordsTable';
+import CrawlDigestPanel from './components/CrawlDigestPanel';
+import PageFilterBar from './components/PageFilterBar';
+import ChangeSummaryPanel from './components/ChangeSummaryPanel';
+import DiffView from './components/DiffView';
+import WatchPanel from './components/WatchPanel';
+import { AiTask, CrawlConfig, CrawlDigest, CrawlMode, CrawlScope, CrawlStatus, CrawledPage, ContentFormat, ExtractionProfile, FetchBackendId, LinkStyle, ListingConfig, LlmProviderId, LogEntry, PageMetadata, PaginationCombine, QueueEntry, SchemaField, UrlRule } from './types';
+import { fetchBinaryContent, setFetchBackend } from './services/crawlerService';
+import { loadProfiles, saveProfiles } from './services/extractionProfiles';
+import { loadSchema, saveSchema, formatExtractedValue, getRecordColumns } from './services/extractionSchema';
+import { METADATA_LABELS } from './services/metadataService';
+import { buildExport, buildDigestMarkdown, downloadExport, assetFolderFor, defaultIncludeBom, EXPORT_FORMATS, ExportFormat, TEXT_VERSIONS, TextVersion, DEFAULT_FILENAME_TEMPLATE } from './services/exportService';
+import { downloadPageAssets } from './services/assetService';
+import { ZipEntry } from './services/zipWriter';
+import { buildCrawlDigest, TRANSLATION_LANGUAGES } from './services/geminiService';
+import { configureLlm, subscribeLlmStats, getLlmStats, LlmStats, DEFAULT_LLM_SETTINGS } from './services/llmClient';
+import { LLM_PROVIDERS, LLM_ERROR_LABELS, LlmError, getLlmProvider } from './services/llmProviders';
+import { clearLlmCache } from './services/llmCache';
+import { buildSearchIndex, buildSnippet, filterPages, isFilterActive, pageHost, plainText, EMPTY_FILTER, PageFilter } from './services/searchService';
+import { buildPageUrl, countPaginatedUrls, otherPlaceholders, parseValueSpec, validatePagination, PaginationOptions } from './services/paginationService';
+import { buildBaseline, findGonePages, Baseline, CHANGE_LABELS } from './services/changeDetection';
+import { FETCH_BACKENDS } from './services/fetchBackends';
+import { FAILURE_LABELS } from './services/retryPolicy';
+import { saveSession, loadSession, listSessions, renameSession, deleteSession, CrawlSessionSummary } from './services/sessionStore';
+import { SchedulerStats } from './services/scheduler';
+import { createCrawlEngine, llmSettingsFor, validateCrawlConfig, CrawlEngine, WatchStatus } from './services/crawlEngine';
+import { getDefaultPathPrefix, canonicalizeUrl, DEFAULT_TRACKING_PARAMS } from './services/urlService';
 
 const App: React.FC = () => {
   // Configuration State
   const [urlInput, setUrlInput] = useState<string>('https://www.moi.gov.mm/news/78764');
   const [maxPages, setMaxPages] = useState<number>(5);
   const [isGeminiEnabled, setIsGeminiEnabled] = useState<boolean>(false);
+  const [aiTask, setAiTask] = useState<AiTask>('summary');
+  const [extractionSchema, setExtractionSchema] = useState<SchemaField[]>(loadSchema);
+  const [translateTo, setTranslateTo] = useState<string>('');
+  const [llmProvider, setLlmProvider] = useState<LlmProviderId>('gemini');
+  const [llmModel, setLlmModel] = useState<string>(DEFAULT_LLM_SETTINGS.model);
+  const [llmRequestsPerMinute, setLlmRequestsPerMinute] = useState<number>(DEFAULT_LLM_SETTINGS.requestsPerMinute);
+  const [llmTokenBudget, setLlmTokenBudget] = useState<number>(DEFAULT_LLM_SETTINGS.tokenBudget);
+  const [llmStats, setLlmStats] = useState<LlmStats>(getLlmStats);
   
   // Pagination / Mode State
-  const [crawlMode, setCrawlMode] = useState<'single' | 'pagination' | 'link-follow'>('single');
+  const [crawlMode, setCrawlMode] = useState<CrawlMode>('single');
   const [startPage, setStartPage] = useState<number>(1);
   const [endPage, setEndPage] = useState<number>(3);
+  const [pageStep, setPageStep] = useState<number>(1);
+  const [placeholderValues, setPlaceholderValues] = useState<Record<string, string>>({});
+  const [placeholderCombine, setPlaceholderCombine] = useState<PaginationCombine>('product');
+  const [stopAfterMisses, setStopAfterMisses] = useState<number>(20);
+
+  // Listing Mode State
+  const [articleSelector, setArticleSelector] = useState<string>('');
+  const [articlePattern, setArticlePattern] = useState<string>('');
+  const [nextSelector, setNextSelector] = useState<string>('');
+  const [maxListingPages, setMaxListingPages] = useState<number>(10);
+  const [watchEnabled, setWatchEnabled] = useState<boolean>(false);
+  const [watchIntervalMinutes, setWatchIntervalMinutes] = useState<number>(10);
+  const [watchMaxMisses, setWatchMaxMisses] = useState<number>(5);
+  const [watchSummarize, setWatchSummarize] = useState<boolean>(false);
+  const [watchInfo, setWatchInfo] = useState<WatchStatus | null>(null);
+
+  // Link-follow Scope State
+  const [maxDepth, setMaxDepth] = useState<number>(2);
+  const [crawlScope, setCrawlScope] = useState<CrawlScope>('same-host');
+  const [pathPrefix, setPathPrefix] = useState<string>('');
+  const [urlRules, setUrlRules] = useState<UrlRule[]>([]);
+  const [trackingParams, setTrackingParams] = useState<string>(DEFAULT_TRACKING_PARAMS.join(', '));
+
+  // Sitemap / Robots State
+  const [sitemapSince, setSitemapSince] = useState<string>('');
+  const [respectRobots, setRespectRobots] = useState<boolean>(true);
+  const [convertZawgyi, setConvertZawgyi] = useState<boolean>(true);
+  const [contentFormat, setContentFormat] = useState<ContentFormat>('text');
+  const [linkStyle, setLinkStyle] = useState<LinkStyle>('inline');
+  const [ignoreImages, setIgnoreImages] = useState<boolean>(false);
+  const [collectAssets, setCollectAssets] = useState<boolean>(true);
+
+  // Extraction Profiles (persisted locally, snapshotted into each crawl's config)
+  const [extractionProfiles, setExtractionProfiles] = useState<ExtractionProfile[]>(loadProfiles);
+  const [showProfiles, setShowProfiles] = useState<boolean>(false);
+
+  // Scheduler State
+  const [concurrency, setConcurrency] = useState<number>(4);
+  const [perHostConcurrency, setPerHostConcurrency] = useState<number>(2);
+  const [perHostDelayMs, setPerHostDelayMs] = useState<number>(1000);
+  const [fetchBackend, setFetchBackendId] = useState<FetchBackendId>('proxy-chain');
+  const [maxRetries, setMaxRetries] = useState<number>(2);
+  const [retryBaseDelayMs, setRetryBaseDelayMs] = useState<number>(2000);
+  const [schedulerStats, setSchedulerStats] = useState<SchedulerStats>({ inFlight: 0, ratePerMinute: 0, backedOffHosts: 0 });
 
   // Execution State
   const [status, setStatus] = useState<CrawlStatus>(CrawlStatus.IDLE);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [pages, setPages] = useState<CrawledPage[]>([]);
-  const [queue, setQueue] = useState<string[]>([]);
+  const [queue, setQueue] = useState<QueueEntry[]>([]);
   const [visited, setVisited] = useState<Set<string>>(new Set());
   
+  // Export Options
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('txt');
+  const [includeBom, setIncludeBom] = useState<boolean>(true);
+  const [includeAssets, setIncludeAssets] = useState<boolean>(false);
+  const [textVersion, setTextVersion] = useState<TextVersion>('both');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [filenameTemplate, setFilenameTemplate] = useState<string>(DEFAULT_FILENAME_TEMPLATE);
+
+  // Sessions
+  const [sessions, setSessions] = useState<CrawlSessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [showSessions, setShowSessions] = useState<boolean>(false);
+
+  // Processed Files filter
+  const [showConvertedOnly, setShowConvertedOnly] = useState<boolean>(false);
+  const [pageFilter, setPageFilter] = useState<PageFilter>(EMPTY_FILTER);
+  const [exportFilteredOnly, setExportFilteredOnly] = useState<boolean>(true);
+
+  // Change Detection State
+  const [compareWith, setCompareWith] = useState<string>(''); // '', 'latest' or a session id
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+  const [exportChangedOnly, setExportChangedOnly] = useState<boolean>(false);
+
+  // Crawl Digest
+  const [digest, setDigest] = useState<CrawlDigest | null>(null);
+  const [isDigesting, setIsDigesting] = useState<boolean>(false);
+
   // Preview Modal
   const [selectedPage, setSelectedPage] = useState<CrawledPage | null>(null);
+  const [sideBySide, setSideBySide] = useState<boolean>(true);
+  const [showDiff, setShowDiff] = useState<boolean>(false);
   
-  // Refs for loop control
-  const statusRef = useRef<CrawlStatus>(CrawlStatus.IDLE);
-  const queueRef = useRef<string[]>([]);
-  const visitedRef = useRef<Set<string>>(new Set());
-  const pagesRef = useRef<CrawledPage[]>([]);
+  // Refs read from async callbacks (the crawl state itself lives in the engine)
+  const logsRef = useRef<LogEntry[]>([]);
+  const sessionRef = useRef<{ id: string; name: string; createdAt: number } | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    refreshSessions();
+  }, []);
+
+  useEffect(() => {
+    saveProfiles(extractionProfiles);
+  }, [extractionProfiles]);
+
+  useEffect(() => {
+    saveSchema(extractionSchema);
+  }, [extractionSchema]);
+
+  useEffect(() => subscribeLlmStats(setLlmStats), []);
 
   // Helpers
+  const llmSettings = (): Pick<CrawlConfig, 'llmProvider' | 'llmModel' | 'llmRequestsPerMinute' | 'llmTokenBudget'> => ({
+    llmProvider,
+    llmModel,
+    llmRequestsPerMinute: Math.max(0, llmRequestsPerMinute),
+    llmTokenBudget: Math.max(0, llmTokenBudget)
+  });
+
   const addLog = (message: string, type: LogEntry['type'] = 'info') => {
-    setLogs(prev => [...prev, {
+    logsRef.current = [...logsRef.current, {
       id: Math.random().toString(36).substr(2, 9),
       timestamp: new Date(),
       message,
       type
-    }]);
+    }];
+    setLogs(logsRef.current);
+  };
+
+  const refreshSessions = async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (e) {
+      console.warn('Session storage unavailable:', e);
+    }
   };
 
+  const persistSession = async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const session = sessionRef.current;
+    const state = engineRef.current?.snapshot();
+    if (!session || !state) return;
+
+    try {
+      await saveSession({
+        ...session,
+        updatedAt: Date.now(),
+        startUrl: state.config.startUrl,
+        mode: state.config.mode,
+        pageCount: state.pages.length,
+        queueCount: state.queue.length,
+        ...state,
+        logs: logsRef.current
+      });
+      refreshSessions();
+    } catch (e: any) {
+      addLog(`Could not save session: ${e.message}`, 'warning');
+    }
+  };
+
+  // Throttled save used while the crawl is running
+  const schedulePersist = () => {
+    if (saveTimerRef.current) return;
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null;
+      persistSession();
+    }, 3000);
+  };
+
+  // Created once; the callbacks only reach refs and state setters, so they never go stale
+  const engineRef = useRef<CrawlEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = createCrawlEngine({
+      onLog: addLog,
+      onStatus: setStatus,
+      onPages: setPages,
+      onQueue: setQueue,
+      onVisited: setVisited,
+      onStats: setSchedulerStats,
+      onWatch: setWatchInfo,
+      onCheckpoint: immediate => immediate ? persistSession() : schedulePersist()
+    });
+  }
+  const engine = engineRef.current;
+
   const handleCrawlStart = async () => {
-    if (!urlInput) {
-      addLog("Please enter a valid URL", 'error');
+    const config: CrawlConfig = {
+        mode: crawlMode,
+        startUrl: urlInput,
+        maxPages,
+        depth: maxDepth,
+        ignoreImages,
+        collectAssets,
+        scope: crawlScope,
+        pathPrefix: pathPrefix || undefined,
+        urlRules,
+        trackingParams: trackingParams.split(',').map(p => p.trim()).filter(Boolean),
+        respectRobots,
+        convertZawgyi,
+        contentFormat,
+        linkStyle,
+        aiTask: isGeminiEnabled ? aiTask : 'off',
+        extractionSchema,
+        translateTo: isGeminiEnabled && translateTo ? translateTo : undefined,
+        ...llmSettings(),
+        concurrency: Math.max(1, concurrency),
+        perHostConcurrency: Math.max(1, perHostConcurrency),
+        perHostDelayMs: Math.max(0, perHostDelayMs),
+        fetchBackend,
+        maxRetries: Math.max(0, maxRetries),
+        retryBaseDelayMs: Math.max(0, retryBaseDelayMs),
+        startPage,
+        endPage,
+        pageStep,
+        placeholderValues: paginationOptions.values,
+        placeholderCombine,
+        stopAfterMisses: Math.max(0, stopAfterMisses),
+        watch: crawlMode === 'pagination' && watchEnabled ? {
+            intervalMinutes: Math.max(1, watchIntervalMinutes),
+            maxMisses: Math.max(1, watchMaxMisses),
+            summarizeNew: watchSummarize
+        } : undefined,
+        listing: crawlMode === 'listing' ? listingConfig : undefined,
+        sitemapSince: sitemapSince || undefined,
+        extractionProfiles
+    };
+    const configError = validateCrawlConfig(config);
+    if (configError) {
+      addLog(configError, 'error');
       return;
     }
+    // The list only holds earlier runs here; this one is saved after the queue is seeded
+    const baselineId = compareWith === 'latest'
+        ? sessions.find(session => session.startUrl === urlInput)?.id
+        : compareWith || undefined;
+    const baselineSession = baselineId ? await loadSession(baselineId) : undefined;
+    const nextBaseline = baselineSession ? await buildBaseline(baselineSession) : null;
     
     // Reset State
+    logsRef.current = [];
     setLogs([]);
-    setPages([]);
-    setVisited(new Set());
-    setStatus(CrawlStatus.RUNNING);
-    
-    // Reset Refs
-    statusRef.current = CrawlStatus.RUNNING;
-    visitedRef.current = new Set();
-    pagesRef.current = [];
-    
-    let initialQueue: string[] = [];
-
-    if (crawlMode === 'pagination') {
-        addLog(`Generating URLs from ID ${startPage} to ${endPage}...`, 'info');
-        initialQueue = generatePaginatedUrls(urlInput, startPage, endPage);
-        if (initialQueue.length === 0) {
-            addLog("Could not generate URLs. Check format.", 'error');
-            setStatus(CrawlStatus.ERROR);
-            return;
-        }
-        addLog(`Generated ${initialQueue.length} target URLs.`, 'info');
-        addLog(`First URL: ${initialQueue[0]}`, 'info');
-    } else if (crawlMode === 'single') {
-        initialQueue = [urlInput];
-        addLog(`Preparing to crawl single page: ${urlInput}`, 'info');
-    } else {
-        // Link Follow Mode
-        initialQueue = [urlInput];
-        addLog(`Starting Link Discovery from: ${urlInput}`, 'info');
+    setDigest(null);
+    setBaseline(nextBaseline);
+    sessionRef.current = {
+        id: Math.random().toString(36).substr(2, 9),
+        name: `${urlInput.replace(/^https?:\/\//, '').substring(0, 40)} · ${new Date().toLocaleString()}`,
+        createdAt: Date.now()
+    };
+    setActiveSessionId(sessionRef.current.id);
+
+    if (nextBaseline) {
+        addLog(`Comparing with "${nextBaseline.name}" (${nextBaseline.entries.size} pages).`, 'info');
+    } else if (compareWith) {
+        addLog(compareWith === 'latest' ? "No earlier run of this URL to compare with." : "Compared session not found; change detection is off.", 'warning');
     }
 
-    setQueue(initialQueue);
-    queueRef.current = initialQueue;
+    await engine.start({ ...config, compareWithSessionId: nextBaseline?.sessionId }, nextBaseline);
+  };
 
-    processQueue();
+  const handleResume = () => {
+    engine.resume();
   };
 
-  const processQueue = async () => {
-    if (statusRef.current !== CrawlStatus.RUNNING) return;
-    
-    // Stop conditions
-    if (queueRef.current.length === 0) {
-        finishCrawl("Queue is empty.");
-        return;
-    }
-    
-    if (crawlMode === 'link-follow' && pagesRef.current.length >= maxPages) {
-        finishCrawl(`Reached limit of ${maxPages} pages.`);
+  const handleOpenSession = async (id: string) => {
+    const session = await loadSession(id);
+    if (!session) {
+        addLog("Session not found.", 'error');
+        refreshSessions();
         return;
     }
 
-    const currentUrl = queueRef.current.shift();
-    if (!currentUrl) return;
+    const { config } = session;
+    const baselineSession = config.compareWithSessionId ? await loadSession(config.compareWithSessionId) : undefined;
+    const sessionBaseline = baselineSession ? await buildBaseline(baselineSession) : null;
+    sessionRef.current = { id: session.id, name: session.name, createdAt: session.createdAt };
+    setDigest(null);
+    setBaseline(sessionBaseline);
+    logsRef.current = session.logs;
+    setLogs(session.logs);
+    engine.restore(session, sessionBaseline);
+    setActiveSessionId(session.id);
 
-    if (visitedRef.current.has(currentUrl)) {
-        processQueue(); // Skip and continue
-        return;
+    // Restore the config panel
+    setCrawlMode(config.mode);
+    setUrlInput(config.startUrl);
+    setMaxPages(config.maxPages);
+    setMaxDepth(config.depth);
+    setCrawlScope(config.scope);
+    setPathPrefix(config.pathPrefix || '');
+    setUrlRules(config.urlRules);
+    setTrackingParams(config.trackingParams.join(', '));
+    setRespectRobots(config.respectRobots);
+    setConvertZawgyi(!!config.convertZawgyi);
+    setContentFormat(config.contentFormat || 'text');
+    setLinkStyle(config.linkStyle || 'inline');
+    setIgnoreImages(!!config.ignoreImages);
+    setCollectAssets(!!config.collectAssets);
+    const aiEnabled = (!!config.aiTask && config.aiTask !== 'off') || !!config.translateTo;
+    setIsGeminiEnabled(aiEnabled);
+    if (aiEnabled) setAiTask(config.aiTask || 'off');
+    setTranslateTo(config.translateTo || '');
+    setLlmProvider(config.llmProvider || 'gemini');
+    setLlmModel(config.llmModel || DEFAULT_LLM_SETTINGS.model);
+    setLlmRequestsPerMinute(config.llmRequestsPerMinute ?? DEFAULT_LLM_SETTINGS.requestsPerMinute);
+    setLlmTokenBudget(config.llmTokenBudget ?? DEFAULT_LLM_SETTINGS.tokenBudget);
+    if (config.extractionSchema) setExtractionSchema(config.extractionSchema);
+    setConcurrency(config.concurrency);
+    setPerHostConcurrency(config.perHostConcurrency);
+    setPerHostDelayMs(config.perHostDelayMs);
+    setFetchBackendId(config.fetchBackend);
+    setMaxRetries(config.maxRetries);
+    setRetryBaseDelayMs(config.retryBaseDelayMs);
+    if (config.startPage !== undefined) setStartPage(config.startPage);
+    if (config.endPage !== undefined) setEndPage(config.endPage);
+    setPageStep(config.pageStep || 1);
+    setPlaceholderValues(config.placeholderValues || {});
+    setPlaceholderCombine(config.placeholderCombine || 'product');
+    setStopAfterMisses(config.stopAfterMisses ?? 0);
+    if (config.listing) {
+        setArticleSelector(config.listing.articleSelector || '');
+        setArticlePattern(config.listing.articlePattern || '');
+        setNextSelector(config.listing.nextSelector || '');
+        setMaxListingPages(config.listing.maxListingPages);
     }
+    setWatchEnabled(!!config.watch);
+    if (config.watch) {
+        setWatchIntervalMinutes(config.watch.intervalMinutes);
+        setWatchMaxMisses(config.watch.maxMisses);
+        setWatchSummarize(config.watch.summarizeNew);
+    }
+    setSitemapSince(config.sitemapSince || '');
+    setCompareWith(config.compareWithSessionId && sessionBaseline ? config.compareWithSessionId : '');
 
-    visitedRef.current.add(currentUrl);
-    setVisited(new Set(visitedRef.current));
-
-    addLog(`Crawling: ${currentUrl}`, 'info');
+    addLog(`Opened session "${session.name}" (${session.pages.length} pages, ${session.queue.length} queued).`, 'info');
+  };
 
-    try {
-        const { html, status } = await fetchUrlContent(currentUrl);
-        
-        if (status === 200) {
-            addLog(`Fetched ${html.length} bytes. Parsing...`, 'success');
-            const { text, title, links } = parseHtml(html, currentUrl);
-            
-            let finalContent = text;
-            
-            // Check for soft 404s
-            if (title.toLowerCase().includes('page not found') || title.toLowerCase().includes('404')) {
-                 addLog(`Warning: Page appears to be empty or 404.`, 'warning');
-                 finalContent = `[WARNING: PAGE NOT FOUND OR EMPTY]\n\n${text}`;
-            }
-
-            if (isGeminiEnabled) {
-               addLog(`Summarizing: ${title.substring(0, 30)}...`, 'info');
-               try {
-                 const summary = await summarizeContent(text);
-                 finalContent = `[AI SUMMARY]: ${summary}\n\n================================\n[FULL CONTENT]:\n${text}`;
-               } catch (e) {
-                 addLog(`AI Summary skipped.`, 'warning');
-               }
-            }
-
-            const newPage: CrawledPage = {
-                url: currentUrl,
-                title,
-                content: finalContent,
-                status: 'success',
-                timestamp: Date.now(),
-                linksFound: links.length
-            };
-
-            pagesRef.current.push(newPage);
-            setPages([...pagesRef.current]);
-
-            // If in Link Follow mode, find new links and add to queue
-            if (crawlMode === 'link-follow') {
-                const newLinks = links.filter(l => !visitedRef.current.has(l));
-                // Add unique new links to queue
-                queueRef.current = [...queueRef.current, ...newLinks];
-                addLog(`Found ${links.length} new links.`, 'info');
-            }
-        } else {
-            addLog(`Failed to fetch. Status: ${status}`, 'error');
-        }
-    } catch (error: any) {
-        addLog(`Error: ${error.message}`, 'error');
+  const handleRenameSession = async (id: string, name: string) => {
+    await renameSession(id, name);
+    if (sessionRef.current?.id === id) {
+        sessionRef.current = { ...sessionRef.current, name };
     }
+    refreshSessions();
+  };
 
-    // Delay to prevent rate limiting (1 second)
-    setTimeout(() => {
-        processQueue();
-    }, 1000);
+  const handleDeleteSession = async (id: string) => {
+    await deleteSession(id);
+    if (sessionRef.current?.id === id) {
+        sessionRef.current = null;
+        setActiveSessionId(null);
+    }
+    refreshSessions();
   };
 
-  const finishCrawl = (reason: string) => {
-      setStatus(CrawlStatus.COMPLETED);
-      statusRef.current = CrawlStatus.COMPLETED;
-      addLog(`Crawl Finished: ${reason}`, 'success');
+  const handleRetryFailed = () => {
+    engine.retryFailed();
   };
 
   const handleStop = () => {
-    setStatus(CrawlStatus.PAUSED);
-    statusRef.current = CrawlStatus.PAUSED;
-    addLog("Process paused by user.", 'warning');
+    engine.stop();
   };
 
-  const handleDownload = () => {
-    if (pages.length === 0) {
+  const handleDownload = async () => {
+    // The filtered subset is exported in crawl order, not search ranking
+    const exportPages = (exportFilteredOnly && isListFiltered
+        ? [...listedPages].sort((a, b) => a.idx - b.idx).map(({ page }) => page)
+        : pages
+    ).filter(page => !exportChangedOnly || !baseline || page.change === 'new' || page.change === 'changed');
+    if (exportPages.length === 0) {
         addLog("No data to download.", 'warning');
         return;
     }
-    downloadAsTextFile(pages);
-    addLog("File download initiated.", 'success');
+    const options = { format: exportFormat, includeBom, filenameTemplate, includeAssets, textVersion };
+    setIsExporting(true);
+    try {
+        let assetEntries: ZipEntry[] = [];
+        const assetCount = exportPages.reduce((acc, p) => acc + (p.assets?.length || 0), 0);
+        if (exportFormat === 'zip' && includeAssets && assetCount > 0) {
+            addLog(`Downloading ${assetCount} assets for the ZIP...`, 'info');
+            // Assets go through the same backend the crawl used
+            setFetchBackend(engine.getConfig()?.fetchBackend || fetchBackend);
+            assetEntries = await downloadPageAssets(exportPages, assetFolderFor(exportPages, options), url => fetchBinaryContent(url));
+            const saved = assetEntries.filter(entry => !entry.name.endsWith('manifest.json')).length;
+            addLog(`Downloaded ${saved}/${assetCount} assets.`, saved < assetCount ? 'warning' : 'success');
+        }
+        const result = buildExport(exportPages, options, assetEntries);
+        downloadExport(result);
+        addLog(`Download initiated: ${result.filename} (${exportPages.length} pages).`, 'success');
+    } catch (e: any) {
+        addLog(`Export failed: ${e.message}`, 'error');
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  const handleBuildDigest = async () => {
+    // The digest follows the AI settings on screen, not the ones the crawl ran with
+    configureLlm(llmSettingsFor(llmSettings()));
+    setIsDigesting(true);
+    addLog(`Building crawl digest from ${successCount} pages...`, 'info');
+    try {
+        const result = await buildCrawlDigest(pages, (done, total) => {
+            if (total > 1) addLog(`Digest step ${done + 1}/${total}...`, 'info');
+        });
+        setDigest(result);
+        addLog(`Crawl digest ready: ${result.topics.length} topics.`, 'success');
+    } catch (e: any) {
+        const kind = e instanceof LlmError ? e.kind : 'request-failed';
+        addLog(`Crawl digest failed (${LLM_ERROR_LABELS[kind]}): ${e.message}`, 'error');
+    } finally {
+        setIsDigesting(false);
+    }
+  };
+
+  const handleDownloadDigest = () => {
+    if (!digest) return;
+    const bom = includeBom ? '\uFEFF' : '';
+    downloadExport({
+        filename: `crawl_digest_${new Date(digest.generatedAt).toISOString().substring(0, 10)}.md`,
+        mimeType: 'text/markdown;charset=utf-8',
+        data: bom + buildDigestMarkdown(digest, pages)
+    });
   };
 
   const handleAutoFormat = () => {
@@ -221,17 +510,52 @@ const App: React.FC = () => {
 
   const getPreviewUrl = () => {
       if (crawlMode === 'pagination') {
-           if (urlInput.includes('{{page}}')) {
-               return urlInput.replace('{{page}}', startPage.toString());
-           }
-           // Fallback to appending if no placeholder
-           const base = urlInput.endsWith('/') ? urlInput : `${urlInput}/`;
-           return `${base}${startPage}`;
+           const firstValues = Object.fromEntries(extraPlaceholders.map(({ name }) => [name, parseValueSpec(placeholderValues[name] || '')[0]]));
+           return buildPageUrl(urlInput, startPage, firstValues);
       }
       return urlInput;
   };
 
+  // Rebuilt whenever pages change, but only while a search is typed
+  const hasQuery = !!pageFilter.query.trim();
+  const searchIndex = useMemo(() => hasQuery ? buildSearchIndex(pages) : null, [pages, hasQuery]);
+
+  // Template placeholders besides {{page}}; only their values are kept in the config
+  const extraPlaceholders = otherPlaceholders(urlInput);
+  const canWatch = extraPlaceholders.length === 0;
+  const listingConfig: ListingConfig = {
+    articleSelector: articleSelector.trim() || undefined,
+    articlePattern: articlePattern.trim() || undefined,
+    nextSelector: nextSelector.trim() || undefined,
+    maxListingPages: Math.max(1, maxListingPages)
+  };
+  const paginationOptions: PaginationOptions = {
+    start: startPage,
+    end: endPage,
+    step: pageStep,
+    values: Object.fromEntries(extraPlaceholders.map(({ name }) => [name, placeholderValues[name] || ''])),
+    combine: placeholderCombine
+  };
+  const paginationError = crawlMode === 'pagination' ? validatePagination(urlInput, paginationOptions) : null;
+  const projectedUrlCount = crawlMode === 'pagination' && !paginationError ? countPaginatedUrls(urlInput, paginationOptions) : 0;
   const totalSize = pages.reduce((acc, page) => acc + page.content.length, 0);
+  const failedCount = pages.filter(page => page.status === 'failed').length;
+  const successCount = pages.filter(page => page.status === 'success').length;
+  const hasTranslations = pages.some(page => page.translation);
+  const llmReady = getLlmProvider(llmProvider).isConfigured();
+  const convertedCount = pages.filter(page => page.convertedFromZawgyi).length;
+  // Keep each page's crawl index so FILE_n labels stay stable while filtering
+  const listedPages = filterPages(pages, pageFilter, searchIndex)
+    .filter(({ page }) => !showConvertedOnly || page.convertedFromZawgyi);
+  const isListFiltered = isFilterActive(pageFilter) || showConvertedOnly;
+  const domains = [...new Set(pages.map(pageHost).filter(Boolean))].sort();
+  // Gone pages are only known once the run is no longer fetching
+  const gonePages = baseline && status !== CrawlStatus.RUNNING ? findGonePages(baseline, pages) : null;
+  const changedCount = pages.filter(page => page.change === 'new' || page.change === 'changed').length;
+  const previousVersion = selectedPage?.change === 'changed' ? baseline?.entries.get(selectedPage.url) : undefined;
+  // Watch settings of the loaded run, not the form
+  const activeWatch = engine.getConfig()?.watch;
+  const recordColumns = getRecordColumns(pages.flatMap(page => page.extracted ? [page.extracted] : []));
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 p-6 font-sans">
@@ -247,6 +571,20 @@ const App: React.FC = () => {
                 <p className="text-slate-500 mt-1">Advanced Text Extractor</p>
             </div>
             <div className="flex gap-4">
+               <button 
+                   onClick={() => setShowSessions(!showSessions)}
+                   className={`flex items-center gap-2 px-3 py-1 rounded-full border text-xs transition-colors ${showSessions ? 'bg-crawler-accent text-slate-900 border-crawler-accent' : 'bg-slate-900 border-slate-700 text-slate-300 hover:text-white'}`}
+               >
+                   <History className="w-3 h-3" />
+                   Sessions ({sessions.length})
+               </button>
+               <button 
+                   onClick={() => setShowProfiles(!showProfiles)}
+                   className={`flex items-center gap-2 px-3 py-1 rounded-full border text-xs transition-colors ${showProfiles ? 'bg-crawler-accent text-slate-900 border-crawler-accent' : 'bg-slate-900 border-slate-700 text-slate-300 hover:text-white'}`}
+               >
+                   <Crosshair className="w-3 h-3" />
+                   Profiles ({extractionProfiles.length})
+               </button>
                <div className="flex items-center gap-2 px-3 py-1 bg-slate-900 rounded-full border border-slate-700 text-xs">
                  <span className={`w-2 h-2 rounded-full ${process.env.API_KEY ? 'bg-green-500' : 'bg-red-500'}`}></span>
                  {process.env.API_KEY ? 'Gemini API Connected' : 'Gemini API Missing'}
@@ -254,6 +592,26 @@ const App: React.FC = () => {
             </div>
         </header>
 
+        {showSessions && (
+            <SessionPanel 
+                sessions={sessions}
+                activeSessionId={activeSessionId}
+                disabled={status === CrawlStatus.RUNNING}
+                onOpen={handleOpenSession}
+                onRename={handleRenameSession}
+                onDelete={handleDeleteSession}
+            />
+        )}
+
+        {showProfiles && (
+            <ExtractionProfilesPanel 
+                profiles={extractionProfiles}
+                onChange={setExtractionProfiles}
+                fetchBackend={fetchBackend}
+                disabled={status === CrawlStatus.RUNNING}
+            />
+        )}
+
         {/* Configuration Panel */}
         <div className="bg-crawler-panel p-6 rounded-lg border border-slate-700 shadow-xl space-y-6">
             
@@ -280,6 +638,20 @@ const App: React.FC = () => {
                     <Network className="w-4 h-4" />
                     Follow Links (လင့်ခ်ဆက်ရာ)
                 </button>
+                <button 
+                    onClick={() => setCrawlMode('sitemap')}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-bold transition-all ${crawlMode === 'sitemap' ? 'bg-crawler-accent text-slate-900' : 'text-slate-400 hover:text-white'}`}
+                >
+                    <MapIcon className="w-4 h-4" />
+                    Sitemap
+                </button>
+                <button 
+                    onClick={() => setCrawlMode('listing')}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-bold transition-all ${crawlMode === 'listing' ? 'bg-crawler-accent text-slate-900' : 'text-slate-400 hover:text-white'}`}
+                >
+                    <Newspaper className="w-4 h-4" />
+                    Listing Pages
+                </button>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-12 gap-6 items-start">
@@ -300,7 +672,7 @@ const App: React.FC = () => {
                                 type="text" 
                                 value={urlInput}
                                 onChange={(e) => setUrlInput(e.target.value)}
-                                placeholder={crawlMode === 'pagination' ? "https://site.com/news/{{page}}" : "https://site.com/article"}
+                                placeholder={crawlMode === 'pagination' ? "https://site.com/news/{{page}}" : crawlMode === 'sitemap' ? "https://site.com/sitemap.xml" : crawlMode === 'listing' ? "https://site.com/news?page=1" : "https://site.com/article"}
                                 disabled={status === CrawlStatus.RUNNING}
                                 className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 pl-10 pr-4 text-white focus:ring-2 focus:ring-crawler-accent focus:border-transparent outline-none font-mono text-sm"
                             />
@@ -317,7 +689,7 @@ const App: React.FC = () => {
                     </div>
                     {crawlMode === 'pagination' && (
                         <p className="text-[10px] text-slate-500 ml-1">
-                            Click the <Wand2 className="w-3 h-3 inline mx-1" /> button to auto-replace the ID (e.g., 78764) with <span className="text-crawler-accent">{'{{page}}'}</span>.
+                            Click the <Wand2 className="w-3 h-3 inline mx-1" /> button to auto-replace the ID (e.g., 78764) with <span className="text-crawler-accent">{'{{page}}'}</span>. Use <span className="text-crawler-accent">{'{{page:04}}'}</span> for zero-padding and other placeholders like <span className="text-crawler-accent">{'{{year}}'}</span> for value lists.
                         </p>
                     )}
                 </div>
@@ -336,7 +708,7 @@ const App: React.FC = () => {
                 )}
                 {crawlMode === 'pagination' && (
                     <div className="md:col-span-3 flex gap-4">
-                        <div className="space-y-2 w-1/2">
+                        <div className="space-y-2 w-2/5">
                             <label className="text-xs font-mono text-slate-400 font-bold uppercase">Start ID</label>
                             <input 
                                 type="number" 
@@ -345,12 +717,70 @@ const App: React.FC = () => {
                                 className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-3 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-center"
                             />
                         </div>
-                        <div className="space-y-2 w-1/2">
+                        <div className="space-y-2 w-2/5">
                             <label className="text-xs font-mono text-slate-400 font-bold uppercase">End ID</label>
                             <input 
                                 type="number" 
                                 value={endPage}
                                 onChange={(e) => setEndPage(parseInt(e.target.value))}
+                                title="Lower than Start ID to crawl newest first"
+                                className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-3 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-center"
+                            />
+                        </div>
+                        <div className="space-y-2 w-1/5">
+                            <label className="text-xs font-mono text-slate-400 font-bold uppercase">Step</label>
+                            <input 
+                                type="number" 
+                                value={pageStep}
+                                onChange={(e) => setPageStep(parseInt(e.target.value) || 1)}
+                                min={1}
+                                className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-2 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-center"
+                            />
+                        </div>
+                    </div>
+                )}
+                 {crawlMode === 'sitemap' && (
+                    <div className="md:col-span-3 flex gap-4">
+                        <div className="space-y-2 w-1/2">
+                            <label className="text-xs font-mono text-slate-400 font-bold uppercase">Limit URLs</label>
+                            <input 
+                                type="number" 
+                                value={maxPages}
+                                onChange={(e) => setMaxPages(parseInt(e.target.value))}
+                                min={1}
+                                className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-3 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-center"
+                            />
+                        </div>
+                        <div className="space-y-2 w-1/2">
+                            <label className="text-xs font-mono text-slate-400 font-bold uppercase">Modified Since</label>
+                            <input 
+                                type="date" 
+                                value={sitemapSince}
+                                onChange={(e) => setSitemapSince(e.target.value)}
+                                className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-2 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-xs"
+                            />
+                        </div>
+                    </div>
+                )}
+                 {crawlMode === 'listing' && (
+                    <div className="md:col-span-3 flex gap-4">
+                        <div className="space-y-2 w-1/2">
+                            <label className="text-xs font-mono text-slate-400 font-bold uppercase">Limit Articles</label>
+                            <input 
+                                type="number" 
+                                value={maxPages}
+                                onChange={(e) => setMaxPages(parseInt(e.target.value))}
+                                min={1}
+                                className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-3 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-center"
+                            />
+                        </div>
+                        <div className="space-y-2 w-1/2">
+                            <label className="text-xs font-mono text-slate-400 font-bold uppercase">Listing Pages</label>
+                            <input 
+                                type="number" 
+                                value={maxListingPages}
+                                onChange={(e) => setMaxListingPages(parseInt(e.target.value))}
+                                min={1}
                                 className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-3 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-center"
                             />
                         </div>
@@ -370,7 +800,7 @@ const App: React.FC = () => {
                 )}
 
                 {/* Buttons */}
-                <div className={`flex gap-3 ${crawlMode === 'pagination' ? 'md:col-span-3' : 'md:col-span-4'}`}>
+                <div className={`flex gap-3 ${crawlMode === 'pagination' || crawlMode === 'sitemap' || crawlMode === 'listing' ? 'md:col-span-3' : 'md:col-span-4'}`}>
                      {status === CrawlStatus.RUNNING ? (
                         <button 
                             onClick={handleStop}
@@ -378,7 +808,16 @@ const App: React.FC = () => {
                         >
                             <Pause className="w-4 h-4" /> Stop
                         </button>
-                    ) : (
+                    ) : status === CrawlStatus.PAUSED && (queue.length > 0 || activeWatch) ? (
+                        <button 
+                            onClick={handleResume}
+                            title={queue.length > 0 ? `Continue with ${queue.length} queued URLs` : 'Continue watching for new IDs'}
+                            className="flex-1 bg-crawler-accent hover:bg-emerald-400 text-slate-900 py-3 rounded-lg font-bold flex justify-center items-center gap-2 transition-all shadow-[0_0_15px_rgba(16,185,129,0.3)] h-[50px] mt-6"
+                        >
+                            <StepForward className="w-4 h-4" /> Resume
+                        </button>
+                    ) : null}
+                    {status !== CrawlStatus.RUNNING && (
                         <button 
                             onClick={handleCrawlStart}
                             className="flex-1 bg-crawler-accent hover:bg-emerald-400 text-slate-900 py-3 rounded-lg font-bold flex justify-center items-center gap-2 transition-all shadow-[0_0_15px_rgba(16,185,129,0.3)] h-[50px] mt-6"
@@ -388,25 +827,559 @@ const App: React.FC = () => {
                     )}
                      <button 
                         onClick={handleDownload}
-                        disabled={pages.length === 0}
+                        disabled={pages.length === 0 || isExporting}
                         className={`px-4 rounded-lg font-bold flex justify-center items-center border transition-all h-[50px] mt-6
                             ${pages.length > 0 
                                 ? 'bg-slate-800 border-slate-600 text-white hover:bg-slate-700' 
                                 : 'bg-slate-900 border-slate-800 text-slate-600 cursor-not-allowed'}`}
                     >
-                        <Download className="w-4 h-4" />
+                        <Download className={`w-4 h-4 ${isExporting ? 'animate-pulse' : ''}`} />
+                    </button>
+                    <button 
+                        onClick={handleBuildDigest}
+                        disabled={successCount === 0 || isDigesting || status === CrawlStatus.RUNNING || !llmReady}
+                        title="Crawl digest: a cross-page overview grouped by topic (Gemini)"
+                        className={`px-4 rounded-lg font-bold flex justify-center items-center border transition-all h-[50px] mt-6
+                            ${successCount > 0 && status !== CrawlStatus.RUNNING && llmReady
+                                ? 'bg-slate-800 border-slate-600 text-white hover:bg-slate-700' 
+                                : 'bg-slate-900 border-slate-800 text-slate-600 cursor-not-allowed'}`}
+                    >
+                        <BookOpen className={`w-4 h-4 ${isDigesting ? 'animate-pulse' : ''}`} />
                     </button>
                 </div>
             </div>
             
+            {/* Pagination Options */}
+            {crawlMode === 'pagination' && (
+                <div className="flex flex-wrap items-center gap-4">
+                    {extraPlaceholders.map(({ name }) => (
+                        <div key={name} className="flex items-center gap-2">
+                            <span className="text-sm text-slate-400 whitespace-nowrap font-mono">{`{{${name}}}`}:</span>
+                            <input
+                                type="text"
+                                value={placeholderValues[name] || ''}
+                                onChange={(e) => setPlaceholderValues({ ...placeholderValues, [name]: e.target.value })}
+                                placeholder="2023-2025 or news,sport"
+                                title="Comma-separated values; ranges like 1-12 or 0-100:10 (step) expand"
+                                disabled={status === CrawlStatus.RUNNING}
+                                className="w-48 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                            />
+                        </div>
+                    ))}
+                    {extraPlaceholders.length > 1 && (
+                        <select
+                            value={placeholderCombine}
+                            onChange={(e) => setPlaceholderCombine(e.target.value as PaginationCombine)}
+                            disabled={status === CrawlStatus.RUNNING}
+                            className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        >
+                            <option value="product">All combinations</option>
+                            <option value="zip">Paired by position</option>
+                        </select>
+                    )}
+                    <div className="flex items-center gap-2" title="Skip the rest of the range after this many 404 or empty pages in a row; 0 never stops">
+                        <span className="text-sm text-slate-400 whitespace-nowrap">Stop after misses:</span>
+                        <input
+                            type="number"
+                            value={stopAfterMisses}
+                            onChange={(e) => setStopAfterMisses(parseInt(e.target.value) || 0)}
+                            min={0}
+                            disabled={status === CrawlStatus.RUNNING}
+                            className="w-16 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        />
+                    </div>
+                    <span className={`text-xs font-mono ${paginationError ? 'text-red-400' : 'text-slate-500'}`}>
+                        {paginationError || `${projectedUrlCount.toLocaleString()} URLs projected`}
+                    </span>
+                </div>
+            )}
+
+            {/* Watch Mode */}
+            {crawlMode === 'pagination' && (
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 cursor-pointer group" title={canWatch ? 'After the range, keep checking for higher IDs while this tab is open' : 'Watching needs {{page}} as the only placeholder'}>
+                        <div className={`w-10 h-6 rounded-full p-1 transition-colors ${watchEnabled ? 'bg-crawler-accent' : 'bg-slate-700'}`} onClick={() => status !== CrawlStatus.RUNNING && setWatchEnabled(!watchEnabled)}>
+                            <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform ${watchEnabled ? 'translate-x-4' : ''}`}></div>
+                        </div>
+                        <Radar className="w-4 h-4 text-slate-400" />
+                        <span className="text-sm text-slate-400 group-hover:text-white transition-colors">Watch for new IDs</span>
+                    </label>
+                    {watchEnabled && (
+                        <>
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm text-slate-400 whitespace-nowrap">Every (min):</span>
+                                <input
+                                    type="number"
+                                    value={watchIntervalMinutes}
+                                    onChange={(e) => setWatchIntervalMinutes(parseInt(e.target.value) || 1)}
+                                    min={1}
+                                    disabled={status === CrawlStatus.RUNNING}
+                                    className="w-16 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                                />
+                            </div>
+                            <div className="flex items-center gap-2" title="A round ends after this many IDs in a row have no article">
+                                <span className="text-sm text-slate-400 whitespace-nowrap">Misses per round:</span>
+                                <input
+                                    type="number"
+                                    value={watchMaxMisses}
+                                    onChange={(e) => setWatchMaxMisses(parseInt(e.target.value) || 1)}
+                                    min={1}
+                                    disabled={status === CrawlStatus.RUNNING}
+                                    className="w-16 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                                />
+                            </div>
+                            <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-400" title="Summarize articles found by watching as they arrive">
+                                <input 
+                                    type="checkbox" 
+                                    checked={watchSummarize}
+                                    onChange={(e) => setWatchSummarize(e.target.checked)}
+                                    disabled={status === CrawlStatus.RUNNING || !llmReady}
+                                />
+                                Summarize new articles
+                            </label>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {/* Link-follow Scope */}
+            {crawlMode === 'link-follow' && (
+                <div className="grid grid-cols-1 md:grid-cols-12 gap-6 items-start">
+                    <div className="md:col-span-2 space-y-2">
+                        <label className="text-xs font-mono text-slate-400 font-bold uppercase ml-1">Max Depth</label>
+                        <input 
+                            type="number" 
+                            value={maxDepth}
+                            onChange={(e) => setMaxDepth(parseInt(e.target.value))}
+                            min={0}
+                            disabled={status === CrawlStatus.RUNNING}
+                            className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-4 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono"
+                        />
+                    </div>
+                    <div className="md:col-span-4 space-y-2">
+                        <label className="text-xs font-mono text-slate-400 font-bold uppercase ml-1">Scope</label>
+                        <select
+                            value={crawlScope}
+                            onChange={(e) => setCrawlScope(e.target.value as CrawlScope)}
+                            disabled={status === CrawlStatus.RUNNING}
+                            className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-4 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-sm"
+                        >
+                            <option value="same-host">Same host</option>
+                            <option value="same-domain">Same domain (incl. subdomains)</option>
+                            <option value="path-prefix">Under path prefix</option>
+                            <option value="any">Any site (unrestricted)</option>
+                        </select>
+                    </div>
+                    {crawlScope === 'path-prefix' && (
+                        <div className="md:col-span-6 space-y-2">
+                            <label className="text-xs font-mono text-slate-400 font-bold uppercase ml-1">Path Prefix</label>
+                            <input 
+                                type="text" 
+                                value={pathPrefix}
+                                onChange={(e) => setPathPrefix(e.target.value)}
+                                placeholder={getDefaultPathPrefix(urlInput)}
+                                disabled={status === CrawlStatus.RUNNING}
+                                className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-4 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-sm"
+                            />
+                        </div>
+                    )}
+                    <div className="md:col-span-12">
+                        <UrlRulesPanel 
+                            rules={urlRules}
+                            onChange={setUrlRules}
+                            disabled={status === CrawlStatus.RUNNING}
+                        />
+                    </div>
+                </div>
+            )}
+            
+            {/* Listing Links */}
+            {crawlMode === 'listing' && (
+                <div className="grid grid-cols-1 md:grid-cols-12 gap-6 items-start">
+                    <div className="md:col-span-4 space-y-2">
+                        <label className="text-xs font-mono text-slate-400 font-bold uppercase ml-1">Article Links (selector)</label>
+                        <input 
+                            type="text" 
+                            value={articleSelector}
+                            onChange={(e) => setArticleSelector(e.target.value)}
+                            placeholder=".post-list h2 a"
+                            title="Links, or elements containing links, to the articles on each listing page"
+                            disabled={status === CrawlStatus.RUNNING}
+                            className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-4 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-sm"
+                        />
+                    </div>
+                    <div className="md:col-span-4 space-y-2">
+                        <label className="text-xs font-mono text-slate-400 font-bold uppercase ml-1">Article URL Pattern (regex)</label>
+                        <input 
+                            type="text" 
+                            value={articlePattern}
+                            onChange={(e) => setArticlePattern(e.target.value)}
+                            placeholder="/news/\d+$"
+                            title="Only article links whose URL matches are queued; combines with the selector"
+                            disabled={status === CrawlStatus.RUNNING}
+                            className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-4 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-sm"
+                        />
+                    </div>
+                    <div className="md:col-span-4 space-y-2">
+                        <label className="text-xs font-mono text-slate-400 font-bold uppercase ml-1">Next Page (selector, optional)</label>
+                        <input 
+                            type="text" 
+                            value={nextSelector}
+                            onChange={(e) => setNextSelector(e.target.value)}
+                            placeholder='Auto: rel="next", pager links'
+                            title="Overrides next-page detection when set"
+                            disabled={status === CrawlStatus.RUNNING}
+                            className="w-full bg-slate-900 border border-slate-600 rounded-lg py-3 px-4 text-white focus:ring-2 focus:ring-crawler-accent outline-none font-mono text-sm"
+                        />
+                    </div>
+                </div>
+            )}
+            
             {/* Advanced Settings */}
-            <div className="flex gap-6 border-t border-slate-700 pt-4">
+            <div className="flex flex-wrap gap-6 border-t border-slate-700 pt-4">
                 <label className="flex items-center gap-2 cursor-pointer group">
                     <div className={`w-10 h-6 rounded-full p-1 transition-colors ${isGeminiEnabled ? 'bg-crawler-accent' : 'bg-slate-700'}`} onClick={() => setIsGeminiEnabled(!isGeminiEnabled)}>
                         <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform ${isGeminiEnabled ? 'translate-x-4' : ''}`}></div>
                     </div>
-                    <span className="text-sm text-slate-400 group-hover:text-white transition-colors">Enable Gemini AI Summarization</span>
+                    <span className="text-sm text-slate-400 group-hover:text-white transition-colors">Enable AI</span>
+                </label>
+                {isGeminiEnabled && (
+                    <div className="flex items-center gap-2">
+                        <span className="text-sm text-slate-400 whitespace-nowrap">AI task:</span>
+                        <select
+                            value={aiTask}
+                            onChange={(e) => setAiTask(e.target.value as AiTask)}
+                            disabled={status === CrawlStatus.RUNNING}
+                            className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        >
+                            <option value="off">None</option>
+                            <option value="summary">Summary</option>
+                            <option value="extract">Structured extraction</option>
+                        </select>
+                        <span className="text-sm text-slate-400 whitespace-nowrap">Translate to:</span>
+                        <select
+                            value={translateTo}
+                            onChange={(e) => setTranslateTo(e.target.value)}
+                            disabled={status === CrawlStatus.RUNNING}
+                            title="Store a translated title and content next to the original"
+                            className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        >
+                            <option value="">No translation</option>
+                            {TRANSLATION_LANGUAGES.map(language => (
+                                <option key={language} value={language}>{language}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+                {isGeminiEnabled && (
+                    <div className="flex items-center gap-2">
+                        <span className="text-sm text-slate-400 whitespace-nowrap">Model:</span>
+                        <select
+                            value={llmProvider}
+                            onChange={(e) => {
+                                const provider = getLlmProvider(e.target.value as LlmProviderId);
+                                setLlmProvider(provider.id);
+                                setLlmModel(provider.models[0]);
+                            }}
+                            disabled={status === CrawlStatus.RUNNING}
+                            title={getLlmProvider(llmProvider).description}
+                            className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        >
+                            {LLM_PROVIDERS.map(provider => (
+                                <option key={provider.id} value={provider.id}>{provider.name}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={llmModel}
+                            onChange={(e) => setLlmModel(e.target.value)}
+                            disabled={status === CrawlStatus.RUNNING}
+                            className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        >
+                            {getLlmProvider(llmProvider).models.map(model => (
+                                <option key={model} value={model}>{model}</option>
+                            ))}
+                        </select>
+                        {!llmReady && (
+                            <span className="text-[10px] text-yellow-400 font-mono whitespace-nowrap" title="AI calls fail without a key. The mock provider answers offline for testing.">
+                                No API key: set GEMINI_API_KEY or pick Offline mock
+                            </span>
+                        )}
+                        <span className="text-sm text-slate-400 whitespace-nowrap">Req/min:</span>
+                        <input 
+                            type="number" 
+                            value={llmRequestsPerMinute}
+                            onChange={(e) => setLlmRequestsPerMinute(parseInt(e.target.value) || 0)}
+                            min={0}
+                            disabled={status === CrawlStatus.RUNNING}
+                            title="Maximum AI requests started per minute (0 = no limit)"
+                            className="w-14 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        />
+                        <span className="text-sm text-slate-400 whitespace-nowrap">Token budget:</span>
+                        <input 
+                            type="number" 
+                            value={llmTokenBudget}
+                            onChange={(e) => setLlmTokenBudget(parseInt(e.target.value) || 0)}
+                            min={0}
+                            step={100000}
+                            disabled={status === CrawlStatus.RUNNING}
+                            title="AI tokens allowed per crawl; calls over budget fail (0 = unlimited)"
+                            className="w-24 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        />
+                        <span className="text-[10px] text-slate-500 font-mono whitespace-nowrap" title="Since the crawl started">
+                            {llmStats.requests} calls · {llmStats.cacheHits} cached · {llmStats.tokensUsed.toLocaleString()} tokens
+                            {llmStats.queued > 0 && ` · ${llmStats.queued} waiting`}
+                        </span>
+                        <button
+                            onClick={async () => {
+                                await clearLlmCache();
+                                addLog('AI response cache cleared.', 'info');
+                            }}
+                            title="Forget cached AI responses so the next crawl asks the model again"
+                            className="text-xs px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-300 hover:bg-slate-700"
+                        >
+                            Clear cache
+                        </button>
+                    </div>
+                )}
+                <div className="flex items-center gap-2">
+                    <GitCompare className="w-4 h-4 text-slate-400" />
+                    <span className="text-sm text-slate-400 whitespace-nowrap">Compare with:</span>
+                    <select
+                        value={compareWith}
+                        onChange={(e) => setCompareWith(e.target.value)}
+                        disabled={status === CrawlStatus.RUNNING}
+                        title="Mark pages as new, changed or unchanged against an earlier saved run"
+                        className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none max-w-xs"
+                    >
+                        <option value="">No comparison</option>
+                        <option value="latest">Latest run of this URL</option>
+                        {sessions.filter(session => session.id !== activeSessionId || compareWith === session.id).map(session => (
+                            <option key={session.id} value={session.id}>{session.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <label className="flex items-center gap-2 cursor-pointer group">
+                    <div className={`w-10 h-6 rounded-full p-1 transition-colors ${respectRobots ? 'bg-crawler-accent' : 'bg-slate-700'}`} onClick={() => setRespectRobots(!respectRobots)}>
+                        <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform ${respectRobots ? 'translate-x-4' : ''}`}></div>
+                    </div>
+                    <span className="text-sm text-slate-400 group-hover:text-white transition-colors">Respect robots.txt</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer group" title="Detect Zawgyi-encoded Burmese and store it as Myanmar Unicode">
+                    <div className={`w-10 h-6 rounded-full p-1 transition-colors ${convertZawgyi ? 'bg-crawler-accent' : 'bg-slate-700'}`} onClick={() => setConvertZawgyi(!convertZawgyi)}>
+                        <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform ${convertZawgyi ? 'translate-x-4' : ''}`}></div>
+                    </div>
+                    <span className="text-sm text-slate-400 group-hover:text-white transition-colors">Zawgyi → Unicode</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer group" title="Record images and PDF/DOCX links found in each page's content">
+                    <div className={`w-10 h-6 rounded-full p-1 transition-colors ${collectAssets ? 'bg-crawler-accent' : 'bg-slate-700'}`} onClick={() => setCollectAssets(!collectAssets)}>
+                        <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform ${collectAssets ? 'translate-x-4' : ''}`}></div>
+                    </div>
+                    <span className="text-sm text-slate-400 group-hover:text-white transition-colors">Asset inventory</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer group" title="Drop images from stored content and the asset inventory">
+                    <div className={`w-10 h-6 rounded-full p-1 transition-colors ${ignoreImages ? 'bg-crawler-accent' : 'bg-slate-700'}`} onClick={() => setIgnoreImages(!ignoreImages)}>
+                        <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform ${ignoreImages ? 'translate-x-4' : ''}`}></div>
+                    </div>
+                    <span className="text-sm text-slate-400 group-hover:text-white transition-colors">Ignore images</span>
+                </label>
+                <div className="flex items-center gap-2">
+                    <span className="text-sm text-slate-400 whitespace-nowrap">Fetch via:</span>
+                    <select
+                        value={fetchBackend}
+                        onChange={(e) => setFetchBackendId(e.target.value as FetchBackendId)}
+                        disabled={status === CrawlStatus.RUNNING}
+                        title={FETCH_BACKENDS.find(b => b.id === fetchBackend)?.description}
+                        className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                    >
+                        {FETCH_BACKENDS.map(backend => (
+                            <option key={backend.id} value={backend.id}>{backend.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-sm text-slate-400 whitespace-nowrap">Store as:</span>
+                    <select
+                        value={contentFormat}
+                        onChange={(e) => setContentFormat(e.target.value as ContentFormat)}
+                        disabled={status === CrawlStatus.RUNNING}
+                        className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                    >
+                        <option value="text">Plain text</option>
+                        <option value="markdown">Markdown</option>
+                        <option value="html">Clean HTML</option>
+                    </select>
+                    {contentFormat === 'markdown' && (
+                        <select
+                            value={linkStyle}
+                            onChange={(e) => setLinkStyle(e.target.value as LinkStyle)}
+                            disabled={status === CrawlStatus.RUNNING}
+                            title="Where Markdown link targets are written"
+                            className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        >
+                            <option value="inline">Inline links</option>
+                            <option value="footnote">Footnote links</option>
+                        </select>
+                    )}
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-sm text-slate-400 whitespace-nowrap">Parallel:</span>
+                    <input 
+                        type="number" 
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(parseInt(e.target.value))}
+                        min={1}
+                        disabled={status === CrawlStatus.RUNNING}
+                        title="Maximum requests in flight across all hosts"
+                        className="w-14 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                    />
+                    <span className="text-sm text-slate-400 whitespace-nowrap">Per host:</span>
+                    <input 
+                        type="number" 
+                        value={perHostConcurrency}
+                        onChange={(e) => setPerHostConcurrency(parseInt(e.target.value))}
+                        min={1}
+                        disabled={status === CrawlStatus.RUNNING}
+                        title="Maximum requests in flight to one host"
+                        className="w-14 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                    />
+                    <span className="text-sm text-slate-400 whitespace-nowrap">Retries:</span>
+                    <input 
+                        type="number" 
+                        value={maxRetries}
+                        onChange={(e) => setMaxRetries(parseInt(e.target.value))}
+                        min={0}
+                        disabled={status === CrawlStatus.RUNNING}
+                        title="Extra attempts for timeouts, proxy failures, 5xx and 429 responses"
+                        className="w-14 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                    />
+                    <span className="text-sm text-slate-400 whitespace-nowrap">Backoff (ms):</span>
+                    <input 
+                        type="number" 
+                        value={retryBaseDelayMs}
+                        onChange={(e) => setRetryBaseDelayMs(parseInt(e.target.value))}
+                        min={0}
+                        step={500}
+                        disabled={status === CrawlStatus.RUNNING}
+                        title="Delay before the first retry; doubles with each attempt"
+                        className="w-20 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                    />
+                    <span className="text-sm text-slate-400 whitespace-nowrap">Delay (ms):</span>
+                    <input 
+                        type="number" 
+                        value={perHostDelayMs}
+                        onChange={(e) => setPerHostDelayMs(parseInt(e.target.value))}
+                        min={0}
+                        step={250}
+                        disabled={status === CrawlStatus.RUNNING}
+                        title="Minimum gap between requests to one host"
+                        className="w-20 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                    />
+                </div>
+                <div className="flex items-center gap-2 flex-1">
+                    <span className="text-sm text-slate-400 whitespace-nowrap">Strip params:</span>
+                    <input 
+                        type="text" 
+                        value={trackingParams}
+                        onChange={(e) => setTrackingParams(e.target.value)}
+                        disabled={status === CrawlStatus.RUNNING}
+                        title="Query parameters removed when comparing URLs (utm_* matches any prefix)"
+                        className="flex-1 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                    />
+                </div>
+            </div>
+
+            {isGeminiEnabled && aiTask === 'extract' && (
+                <ExtractionSchemaPanel
+                    schema={extractionSchema}
+                    onChange={setExtractionSchema}
+                    disabled={status === CrawlStatus.RUNNING}
+                />
+            )}
+
+            {/* Export Options */}
+            <div className="flex flex-wrap gap-6 items-center">
+                <div className="flex items-center gap-2">
+                    <Download className="w-4 h-4 text-slate-400" />
+                    <span className="text-sm text-slate-400 whitespace-nowrap">Export as:</span>
+                    <select
+                        value={exportFormat}
+                        onChange={(e) => {
+                            const format = e.target.value as ExportFormat;
+                            setExportFormat(format);
+                            setIncludeBom(defaultIncludeBom(format));
+                        }}
+                        className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                    >
+                        {EXPORT_FORMATS.map(format => (
+                            <option key={format.id} value={format.id}>{format.label}</option>
+                        ))}
+                    </select>
+                </div>
+                {hasTranslations && (
+                    <div className="flex items-center gap-2">
+                        <Languages className="w-4 h-4 text-slate-400" />
+                        <span className="text-sm text-slate-400 whitespace-nowrap">Text:</span>
+                        <select
+                            value={textVersion}
+                            onChange={(e) => setTextVersion(e.target.value as TextVersion)}
+                            className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        >
+                            {TEXT_VERSIONS.map(version => (
+                                <option key={version.id} value={version.id}>{version.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+                <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-400">
+                    <input 
+                        type="checkbox" 
+                        checked={includeBom}
+                        onChange={(e) => setIncludeBom(e.target.checked)}
+                    />
+                    UTF-8 BOM (Windows / Burmese)
                 </label>
+                {isListFiltered && (
+                    <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-400" title="Export only the pages listed under Processed Files">
+                        <input 
+                            type="checkbox" 
+                            checked={exportFilteredOnly}
+                            onChange={(e) => setExportFilteredOnly(e.target.checked)}
+                        />
+                        Only filtered ({listedPages.length})
+                    </label>
+                )}
+                {baseline && (
+                    <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-400" title={`Export only pages that are new or changed since "${baseline.name}"`}>
+                        <input 
+                            type="checkbox" 
+                            checked={exportChangedOnly}
+                            onChange={(e) => setExportChangedOnly(e.target.checked)}
+                        />
+                        Only new/changed ({changedCount})
+                    </label>
+                )}
+                {exportFormat === 'zip' && (
+                    <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-400" title="Fetch each page's images and documents into assets/ inside the ZIP">
+                        <input 
+                            type="checkbox" 
+                            checked={includeAssets}
+                            onChange={(e) => setIncludeAssets(e.target.checked)}
+                        />
+                        Include assets
+                    </label>
+                )}
+                {exportFormat === 'zip' && (
+                    <div className="flex items-center gap-2 flex-1">
+                        <span className="text-sm text-slate-400 whitespace-nowrap">File names:</span>
+                        <input 
+                            type="text" 
+                            value={filenameTemplate}
+                            onChange={(e) => setFilenameTemplate(e.target.value)}
+                            title="Placeholders: {index} {index:03} {slug} {host} {date} {status}. Extension .md, .txt, .json or .html sets the file format."
+                            className="flex-1 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                        />
+                    </div>
+                )}
             </div>
         </div>
 
@@ -416,8 +1389,37 @@ const App: React.FC = () => {
             totalLinks={pages.reduce((acc, p) => acc + p.linksFound, 0)}
             totalSize={totalSize}
             status={status}
+            inFlight={schedulerStats.inFlight}
+            ratePerMinute={schedulerStats.ratePerMinute}
         />
 
+        {fetchBackend === 'proxy-chain' && <ProxyHealthPanel />}
+
+        {watchInfo && activeWatch && (
+            <WatchPanel
+                highestId={watchInfo.highestId}
+                nextCheckAt={watchInfo.nextCheckAt}
+                intervalMinutes={activeWatch.intervalMinutes}
+                isRunning={status === CrawlStatus.RUNNING}
+                pages={pages}
+                onSelect={setSelectedPage}
+            />
+        )}
+
+        {baseline && pages.length > 0 && (
+            <ChangeSummaryPanel baseline={baseline} pages={pages} gone={gonePages} />
+        )}
+
+        {digest && (
+            <CrawlDigestPanel
+                digest={digest}
+                pages={pages}
+                onSelect={setSelectedPage}
+                onDownload={handleDownloadDigest}
+                onClose={() => setDigest(null)}
+            />
+        )}
+
         {/* Logs & Preview */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2">
@@ -428,7 +1430,37 @@ const App: React.FC = () => {
                  <div className="bg-slate-900 px-4 py-2 border-b border-slate-700 flex items-center gap-2">
                     <RefreshCcw className={`w-4 h-4 text-crawler-accent ${status === CrawlStatus.RUNNING ? 'animate-spin' : ''}`} />
                     <span className="text-sm font-mono text-slate-300 font-bold">PROCESSED FILES</span>
+                    <div className="flex-1" />
+                    {(convertedCount > 0 || showConvertedOnly) && (
+                        <button 
+                            onClick={() => setShowConvertedOnly(!showConvertedOnly)}
+                            title="Only list pages converted from Zawgyi"
+                            className={`text-[10px] px-2 py-0.5 rounded border ${showConvertedOnly ? 'border-crawler-accent text-crawler-accent bg-crawler-accent/10' : 'border-slate-600 text-slate-400 hover:text-white'}`}
+                        >
+                            Zawgyi ({convertedCount})
+                        </button>
+                    )}
+                    {failedCount > 0 && (
+                        <button 
+                            onClick={handleRetryFailed}
+                            disabled={status === CrawlStatus.RUNNING}
+                            title="Re-queue every failed URL"
+                            className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded border border-red-900/50 bg-red-900/20 text-red-400 hover:bg-red-900/40 disabled:opacity-40"
+                        >
+                            <RotateCcw className="w-3 h-3" /> Retry failed ({failedCount})
+                        </button>
+                    )}
                 </div>
+                {pages.length > 0 && (
+                    <PageFilterBar
+                        filter={pageFilter}
+                        onChange={setPageFilter}
+                        domains={domains}
+                        matchCount={listedPages.length}
+                        totalCount={pages.length}
+                        showChange={!!baseline}
+                    />
+                )}
                 <div className="flex-1 overflow-y-auto p-2 space-y-2">
                     {pages.length === 0 && (
                         <div className="h-full flex flex-col items-center justify-center text-slate-600">
@@ -436,32 +1468,54 @@ const App: React.FC = () => {
                             <p className="text-xs">No files crawled yet</p>
                         </div>
                     )}
-                    {pages.map((page, idx) => (
+                    {listedPages.map(({ page, idx }) => (
                         <div 
                             key={idx} 
                             onClick={() => setSelectedPage(page)}
-                            className="bg-slate-900/50 p-3 rounded border border-slate-800 hover:border-crawler-accent transition-colors cursor-pointer group relative"
+                            className={`bg-slate-900/50 p-3 rounded border hover:border-crawler-accent transition-colors cursor-pointer group relative ${page.status === 'failed' ? 'border-red-900/60' : 'border-slate-800'}`}
                         >
                              <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
                                 <Eye className="w-4 h-4 text-crawler-accent" />
                             </div>
                             <div className="flex justify-between items-start mb-1 pr-6">
-                                <span className="text-xs font-mono text-crawler-accent font-bold">FILE_{idx + 1}.txt</span>
+                                <span className={`text-xs font-mono font-bold ${page.status === 'failed' ? 'text-red-400' : 'text-crawler-accent'}`}>FILE_{idx + 1}.txt</span>
+                                {page.status === 'failed' && page.failureReason && (
+                                    <span className="text-[10px] bg-red-900/30 text-red-400 px-1.5 py-0.5 rounded">{FAILURE_LABELS[page.failureReason]}</span>
+                                )}
+                                {page.convertedFromZawgyi && (
+                                    <span className="text-[10px] bg-yellow-900/30 text-yellow-400 px-1.5 py-0.5 rounded" title="Converted from Zawgyi">ZG→U</span>
+                                )}
+                                {(page.change === 'new' || page.change === 'changed') && (
+                                    <span className={`text-[10px] px-1.5 py-0.5 rounded ${page.change === 'new' ? 'bg-sky-900/30 text-sky-400' : 'bg-orange-900/30 text-orange-400'}`}>{CHANGE_LABELS[page.change].toUpperCase()}</span>
+                                )}
                                 <span className="text-[10px] bg-slate-800 text-slate-400 px-1.5 py-0.5 rounded">{Math.round(page.content.length / 1024)}KB</span>
                             </div>
                             <div className="text-xs text-slate-300 truncate font-semibold mb-1" title={page.title}>{page.title || 'No Title'}</div>
                             <div className="text-[10px] text-slate-500 truncate font-mono">{page.url}</div>
+                            {hasQuery && (
+                                <div className="text-[10px] text-slate-400 mt-1 line-clamp-3">
+                                    {buildSnippet(plainText(page), pageFilter.query).map((part, i) => part.match
+                                        ? <mark key={i} className="bg-crawler-accent/30 text-white rounded px-0.5">{part.text}</mark>
+                                        : <span key={i}>{part.text}</span>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
             </div>
         </div>
+
+        {/* Extracted Records */}
+        {recordColumns.length > 0 && (
+            <RecordsTable pages={pages} columns={recordColumns} onSelect={setSelectedPage} />
+        )}
       </div>
       
       {/* Content Preview Modal */}
       {selectedPage && (
         <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-6 backdrop-blur-sm animate-fade-in">
-            <div className="bg-slate-900 w-full max-w-4xl max-h-[80vh] rounded-xl border border-slate-700 shadow-2xl flex flex-col">
+            <div className={`bg-slate-900 w-full ${selectedPage.translation && sideBySide ? 'max-w-6xl' : 'max-w-4xl'} max-h-[80vh] rounded-xl border border-slate-700 shadow-2xl flex flex-col`}>
                 <div className="flex justify-between items-center p-4 border-b border-slate-800">
                     <div>
                         <h3 className="text-white font-bold text-lg flex items-center gap-2">
@@ -469,18 +1523,166 @@ const App: React.FC = () => {
                              File Preview
                         </h3>
                         <p className="text-xs text-slate-400 mt-1 font-mono">{selectedPage.url}</p>
+                        {selectedPage.canonicalUrl && selectedPage.canonicalUrl !== canonicalizeUrl(selectedPage.url) && (
+                            <p className="text-[10px] text-slate-500 font-mono">Canonical: {selectedPage.canonicalUrl}</p>
+                        )}
+                        {selectedPage.status === 'failed' && (
+                            <p className="text-[10px] text-red-400 font-mono">
+                                {selectedPage.failureReason ? FAILURE_LABELS[selectedPage.failureReason] : 'Failed'} after {selectedPage.attempts || 1} attempt(s): {selectedPage.error}
+                            </p>
+                        )}
+                        {selectedPage.httpStatus !== undefined && (
+                            <p className="text-[10px] text-slate-500 font-mono">
+                                HTTP {selectedPage.httpStatus} · {selectedPage.contentType || 'unknown type'} · via {selectedPage.fetchBackend}
+                                {selectedPage.finalUrl && selectedPage.finalUrl !== selectedPage.url && ` · final URL ${selectedPage.finalUrl}`}
+                            </p>
+                        )}
+                        {selectedPage.encoding && selectedPage.encoding !== 'none' && (
+                            <p className="text-[10px] text-slate-500 font-mono">
+                                Encoding: {selectedPage.encoding === 'zawgyi' ? 'Zawgyi' : 'Unicode'} ({Math.round((selectedPage.encodingConfidence || 0) * 100)}% confidence)
+                                {selectedPage.convertedFromZawgyi && ' · converted to Unicode'}
+                            </p>
+                        )}
+                        {selectedPage.listingPage !== undefined && selectedPage.parentUrl && (
+                            <p className="text-[10px] text-slate-500 font-mono">Found on listing page {selectedPage.listingPage}: {selectedPage.parentUrl}</p>
+                        )}
+                        {selectedPage.profileId && (
+                            <p className="text-[10px] text-slate-500 font-mono">
+                                Profile: {engine.getConfig()?.extractionProfiles?.find(p => p.id === selectedPage.profileId)?.name || selectedPage.profileId}
+                            </p>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {previousVersion && (
+                            <button
+                                onClick={() => setShowDiff(!showDiff)}
+                                title={`Show what changed since "${baseline?.name}"`}
+                                className={`flex items-center gap-1 px-2 py-1 rounded border text-xs ${showDiff ? 'bg-crawler-accent text-slate-900 border-crawler-accent' : 'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+                            >
+                                <GitCompare className="w-3 h-3" /> Diff
+                            </button>
+                        )}
+                        {selectedPage.translation && (
+                            <button
+                                onClick={() => setSideBySide(!sideBySide)}
+                                title="Show the translation next to the original"
+                                className={`flex items-center gap-1 px-2 py-1 rounded border text-xs ${sideBySide ? 'bg-crawler-accent text-slate-900 border-crawler-accent' : 'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+                            >
+                                <Languages className="w-3 h-3" /> {selectedPage.translation.language}
+                            </button>
+                        )}
+                        <button 
+                            onClick={() => setSelectedPage(null)}
+                            className="p-2 hover:bg-slate-800 rounded-full transition-colors"
+                        >
+                            <X className="w-6 h-6 text-slate-400 hover:text-white" />
+                        </button>
                     </div>
-                    <button 
-                        onClick={() => setSelectedPage(null)}
-                        className="p-2 hover:bg-slate-800 rounded-full transition-colors"
-                    >
-                        <X className="w-6 h-6 text-slate-400 hover:text-white" />
-                    </button>
                 </div>
                 <div className="flex-1 overflow-auto p-6 bg-slate-950/50">
-                    <pre className="text-slate-300 font-mono text-sm whitespace-pre-wrap leading-relaxed">
-                        {selectedPage.content}
-                    </pre>
+                    {selectedPage.metadata && Object.keys(selectedPage.metadata).length > 0 && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs font-mono mb-4 p-3 rounded border border-slate-800 bg-slate-900/50">
+                            {(Object.keys(METADATA_LABELS) as (keyof PageMetadata)[])
+                                .filter(key => selectedPage.metadata?.[key] !== undefined)
+                                .map(key => {
+                                    const value = selectedPage.metadata![key]!;
+                                    return (
+                                        <div key={key} className={`flex gap-2 ${key === 'description' ? 'md:col-span-2' : ''}`}>
+                                            <span className="text-slate-500 w-24 shrink-0">{METADATA_LABELS[key]}</span>
+                                            {key === 'image' ? (
+                                                <a href={value as string} target="_blank" rel="noreferrer" className="text-crawler-accent truncate hover:underline">{value}</a>
+                                            ) : (
+                                                <span className="text-slate-200 break-words">{Array.isArray(value) ? value.join(', ') : value}</span>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                        </div>
+                    )}
+                    {selectedPage.assets && selectedPage.assets.length > 0 && (
+                        <div className="mb-4 space-y-1">
+                            <p className="text-[10px] text-slate-500 font-mono uppercase">Assets ({selectedPage.assets.length})</p>
+                            <div className="flex flex-wrap gap-2">
+                                {selectedPage.assets.map(asset => (
+                                    <a 
+                                        key={asset.url}
+                                        href={asset.url}
+                                        target="_blank"
+                                        rel="noreferrer"
+                                        title={[asset.alt || asset.text, asset.caption, asset.url].filter(Boolean).join('\n')}
+                                        className="w-32 bg-slate-900 border border-slate-800 rounded p-1 hover:border-crawler-accent text-[10px] font-mono text-slate-400"
+                                    >
+                                        {asset.type === 'image' ? (
+                                            <img src={asset.url} alt={asset.alt || ''} loading="lazy" className="w-full h-20 object-cover rounded bg-slate-800" />
+                                        ) : (
+                                            <div className="w-full h-20 flex items-center justify-center rounded bg-slate-800 text-crawler-accent font-bold uppercase">{asset.extension}</div>
+                                        )}
+                                        <div className="truncate mt-1 text-slate-300">{asset.caption || asset.alt || asset.text || asset.url.split('/').pop()}</div>
+                                        {asset.width && asset.height && <div>{asset.width}×{asset.height}</div>}
+                                    </a>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {selectedPage.extracted && (
+                        <div className="mb-4">
+                            <p className="text-[10px] text-slate-500 font-mono uppercase mb-1">Extracted record</p>
+                            <table className="text-xs font-mono border border-slate-800 w-full">
+                                <tbody>
+                                    {Object.entries(selectedPage.extracted).map(([name, value]) => (
+                                        <tr key={name} className="border-t border-slate-800">
+                                            <td className="p-2 text-slate-500 align-top">{name}</td>
+                                            <td className="p-2 text-slate-200 whitespace-pre-wrap">{formatExtractedValue(value)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {selectedPage.extractionErrors?.map(error => (
+                                <p key={error} className="text-[10px] text-yellow-400 font-mono mt-1">{error}</p>
+                            ))}
+                        </div>
+                    )}
+                    {selectedPage.aiErrors?.map((error, idx) => (
+                        <p key={idx} className="text-[10px] text-yellow-400 font-mono mb-1">
+                            AI {error.task} failed ({LLM_ERROR_LABELS[error.kind]}): {error.message}
+                        </p>
+                    ))}
+                    {selectedPage.fields && Object.keys(selectedPage.fields).length > 0 && (
+                        <table className="text-xs font-mono mb-4 border border-slate-800">
+                            <tbody>
+                                {Object.entries(selectedPage.fields).map(([name, value]) => (
+                                    <tr key={name} className="border-t border-slate-800">
+                                        <td className="p-2 text-slate-500 align-top">{name}</td>
+                                        <td className="p-2 text-slate-200 whitespace-pre-wrap">{value}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    {previousVersion && showDiff ? (
+                        <DiffView before={previousVersion.content} after={selectedPage.content} />
+                    ) : selectedPage.translation && sideBySide ? (
+                        <div className="grid grid-cols-2 gap-6">
+                            <div>
+                                <p className="text-[10px] text-slate-500 font-mono uppercase mb-1">Original</p>
+                                <h4 className="text-white font-bold text-sm mb-2">{selectedPage.title}</h4>
+                                <pre className="text-slate-300 font-mono text-sm whitespace-pre-wrap leading-relaxed">
+                                    {selectedPage.content}
+                                </pre>
+                            </div>
+                            <div className="border-l border-slate-800 pl-6">
+                                <p className="text-[10px] text-slate-500 font-mono uppercase mb-1">{selectedPage.translation.language}</p>
+                                <h4 className="text-white font-bold text-sm mb-2">{selectedPage.translation.title}</h4>
+                                <pre className="text-slate-300 font-mono text-sm whitespace-pre-wrap leading-relaxed">
+                                    {selectedPage.translation.content}
+                                </pre>
+                            </div>
+                        </div>
+                    ) : (
+                        <pre className="text-slate-300 font-mono text-sm whitespace-pre-wrap leading-relaxed">
+                            {selectedPage.content}
+                        </pre>
+                    )}
                 </div>
                 <div className="p-4 border-t border-slate-800 flex justify-end">
                     <button 
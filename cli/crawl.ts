@@ -0,0 +1,479 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { DOMParser } from 'linkedom';
+import { CrawlConfig, CrawlStatus, LogEntry, UrlRule } from '../types';
+import { createCrawlEngine, validateCrawlConfig } from '../services/crawlEngine';
+import { setDocumentParser, DocumentParser } from '../services/domAdapter';
+import { fetchBinaryContent } from '../services/crawlerService';
+import { buildExport, assetFolderFor, defaultIncludeBom, EXPORT_FORMATS, ExportOptions, DEFAULT_FILENAME_TEMPLATE } from '../services/exportService';
+import { downloadPageAssets } from '../services/assetService';
+import { ZipEntry } from '../services/zipWriter';
+import { buildBaseline } from '../services/changeDetection';
+import { CrawlSession } from '../services/sessionStore';
+import { DEFAULT_SCHEMA } from '../services/extractionSchema';
+import { DEFAULT_LLM_SETTINGS } from '../services/llmClient';
+import { DEFAULT_TRACKING_PARAMS } from '../services/urlService';
+
+// Headless crawler: the app's engine, modes and export formats, driven from the command
+// line. Progress goes to stdout as log lines; the export is written when the run ends.
+
+const USAGE = `Usage: npm run crawl -- <url> [options]
+
+Settings come from defaults, then --config <file.json> (CrawlConfig fields, plus
+"export" for export options), then flags.
+
+Crawl
+  --mode <mode>                single | pagination | link-follow | sitemap | listing
+  --max-pages <n>              Page limit for link-follow, listing and sitemap runs
+  --depth <n>                  Link-follow depth
+  --scope <scope>              same-host | same-domain | path-prefix | any
+  --path-prefix <path>
+  --include <glob>             URL rule, repeatable; checked in order with --exclude
+  --exclude <glob>
+  --start <id> --end <id>      Pagination range; a lower end counts down
+  --step <n>
+  --values <name=spec>         Values for another template placeholder, repeatable
+  --combine <product|zip>
+  --stop-after-misses <n>
+  --watch <minutes>            Pagination: keep probing for new IDs until Ctrl+C
+  --watch-misses <n>
+  --watch-summarize
+  --article-selector <css>     Listing mode
+  --article-pattern <regex>
+  --next-selector <css>
+  --max-listing-pages <n>
+  --sitemap-since <YYYY-MM-DD>
+  --content-format <format>    text | markdown | html
+  --link-style <style>         inline | footnote
+  --ignore-images
+  --no-assets                  Do not inventory images and documents
+  --no-robots
+  --no-zawgyi
+  --backend <id>               direct | proxy-chain (default direct)
+  --concurrency <n> --per-host <n> --delay <ms> --retries <n>
+  --ai <summary|extract>       Needs API_KEY or GEMINI_API_KEY, or --llm-provider mock
+  --translate <language>
+  --llm-provider <gemini|mock> --llm-model <model>
+
+Output
+  --export <format>            ${EXPORT_FORMATS.map(format => format.id).join(' | ')}
+  --out <path>                 File, or directory for the default file name
+  --filename-template <tpl>    ZIP entry names
+  --text-version <version>     original | translated | both
+  --include-assets             ZIP: also download images and documents
+  --changed-only               Only pages that are new or changed since --compare
+  --bom / --no-bom             UTF-8 BOM (default on for TXT and CSV, off for the others)
+
+Sessions
+  --session <file.json>        Save progress here; an existing file is resumed with
+                               its saved settings, so only Output and Sessions flags apply
+  --retry-failed               With --session: re-queue the failed URLs
+  --compare <file.json>        Session file of an earlier run, for change detection
+`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\nRun with --help for options.`);
+  process.exit(1);
+};
+
+const readJson = <T>(file: string): T => {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e: any) {
+    return fail(`Could not read ${file}: ${e.message}`);
+  }
+};
+
+const toNumber = (flag: string, value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : fail(`--${flag} must be a number, got "${value}".`);
+};
+
+const oneOf = <T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T | undefined => {
+  if (value === undefined) return undefined;
+  return (allowed as readonly string[]).includes(value) ? value as T : fail(`--${flag} must be one of ${allowed.join(', ')}.`);
+};
+
+// Drops unset flags so they do not override the config file
+const defined = <T extends object>(values: T): Partial<T> =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+// linkedom parses XML only as 'text/xml', and leaves markup without <html> or <body> outside the body
+const parseWithLinkedom: DocumentParser = (markup, type) => {
+  if (type !== 'text/html') {
+    return new DOMParser().parseFromString(markup, 'text/xml') as unknown as Document;
+  }
+  const html = /<(html|body)[\s>]/i.test(markup) ? markup : `<!DOCTYPE html><html><body>${markup}</body></html>`;
+  return new DOMParser().parseFromString(html, 'text/html') as unknown as Document;
+};
+
+const formatLog = (entry: LogEntry): string =>
+  `${entry.timestamp.toISOString().substring(11, 19)} ${entry.type.toUpperCase().padEnd(7)} ${entry.message}`;
+
+const parseFlags = () => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        help: { type: 'boolean', short: 'h' },
+        config: { type: 'string' },
+        url: { type: 'string' },
+        mode: { type: 'string' },
+        'max-pages': { type: 'string' },
+        depth: { type: 'string' },
+        scope: { type: 'string' },
+        'path-prefix': { type: 'string' },
+        include: { type: 'string', multiple: true },
+        exclude: { type: 'string', multiple: true },
+        start: { type: 'string' },
+        end: { type: 'string' },
+        step: { type: 'string' },
+        values: { type: 'string', multiple: true },
+        combine: { type: 'string' },
+        'stop-after-misses': { type: 'string' },
+        watch: { type: 'string' },
+        'watch-misses': { type: 'string' },
+        'watch-summarize': { type: 'boolean' },
+        'article-selector': { type: 'string' },
+        'article-pattern': { type: 'string' },
+        'next-selector': { type: 'string' },
+        'max-listing-pages': { type: 'string' },
+        'sitemap-since': { type: 'string' },
+        'content-format': { type: 'string' },
+        'link-style': { type: 'string' },
+        'ignore-images': { type: 'boolean' },
+        'no-assets': { type: 'boolean' },
+        'no-robots': { type: 'boolean' },
+        'no-zawgyi': { type: 'boolean' },
+        backend: { type: 'string' },
+        concurrency: { type: 'string' },
+        'per-host': { type: 'string' },
+        delay: { type: 'string' },
+        retries: { type: 'string' },
+        ai: { type: 'string' },
+        translate: { type: 'string' },
+        'llm-provider': { type: 'string' },
+        'llm-model': { type: 'string' },
+        export: { type: 'string' },
+        out: { type: 'string' },
+        'filename-template': { type: 'string' },
+        'text-version': { type: 'string' },
+        'include-assets': { type: 'boolean' },
+        'changed-only': { type: 'boolean' },
+        bom: { type: 'boolean' },
+        'no-bom': { type: 'boolean' },
+        session: { type: 'string' },
+        'retry-failed': { type: 'boolean' },
+        compare: { type: 'string' }
+      }
+    });
+  } catch (e: any) {
+    return fail(e.message);
+  }
+};
+
+const { values: flags, positionals } = parseFlags();
+
+// Flags that still apply when an existing session file is resumed with its saved settings
+const RESUME_FLAGS = new Set([
+  'help', 'config', 'session', 'retry-failed', 'compare',
+  'export', 'out', 'filename-template', 'text-version', 'include-assets', 'changed-only', 'bom', 'no-bom'
+]);
+
+const buildConfig = (file: Partial<CrawlConfig>): CrawlConfig => {
+  const base: CrawlConfig = {
+    mode: 'single',
+    startUrl: '',
+    maxPages: 5,
+    depth: 2,
+    ignoreImages: false,
+    collectAssets: true,
+    scope: 'same-host',
+    urlRules: [],
+    trackingParams: DEFAULT_TRACKING_PARAMS,
+    respectRobots: true,
+    convertZawgyi: true,
+    contentFormat: 'text',
+    linkStyle: 'inline',
+    aiTask: 'off',
+    extractionSchema: DEFAULT_SCHEMA,
+    llmProvider: 'gemini',
+    llmModel: DEFAULT_LLM_SETTINGS.model,
+    llmRequestsPerMinute: DEFAULT_LLM_SETTINGS.requestsPerMinute,
+    llmTokenBudget: DEFAULT_LLM_SETTINGS.tokenBudget,
+    concurrency: 4,
+    perHostConcurrency: 2,
+    perHostDelayMs: 1000,
+    fetchBackend: 'direct',
+    maxRetries: 2,
+    retryBaseDelayMs: 2000,
+    startPage: 1,
+    endPage: 3,
+    pageStep: 1,
+    placeholderCombine: 'product',
+    stopAfterMisses: 20,
+    ...file
+  };
+
+  const rules: UrlRule[] = [
+    ...(flags.include || []).map(pattern => ({ action: 'include' as const, pattern })),
+    ...(flags.exclude || []).map(pattern => ({ action: 'exclude' as const, pattern }))
+  ].map(rule => ({ id: Math.random().toString(36).substr(2, 9), syntax: 'glob' as const, ...rule }));
+  const placeholderValues = (flags.values || []).map(item => {
+    const separator = item.indexOf('=');
+    return separator > 0 ? [item.substring(0, separator), item.substring(separator + 1)] : fail(`--values expects name=spec, got "${item}".`);
+  });
+  const watchMinutes = toNumber('watch', flags.watch);
+
+  const config: CrawlConfig = {
+    ...base,
+    ...defined({
+      startUrl: positionals[0] || flags.url,
+      mode: oneOf('mode', flags.mode, ['single', 'pagination', 'link-follow', 'sitemap', 'listing'] as const),
+      maxPages: toNumber('max-pages', flags['max-pages']),
+      depth: toNumber('depth', flags.depth),
+      scope: oneOf('scope', flags.scope, ['same-host', 'same-domain', 'path-prefix', 'any'] as const),
+      pathPrefix: flags['path-prefix'],
+      startPage: toNumber('start', flags.start),
+      endPage: toNumber('end', flags.end),
+      pageStep: toNumber('step', flags.step),
+      placeholderCombine: oneOf('combine', flags.combine, ['product', 'zip'] as const),
+      stopAfterMisses: toNumber('stop-after-misses', flags['stop-after-misses']),
+      sitemapSince: flags['sitemap-since'],
+      contentFormat: oneOf('content-format', flags['content-format'], ['text', 'markdown', 'html'] as const),
+      linkStyle: oneOf('link-style', flags['link-style'], ['inline', 'footnote'] as const),
+      ignoreImages: flags['ignore-images'],
+      collectAssets: flags['no-assets'] ? false : undefined,
+      respectRobots: flags['no-robots'] ? false : undefined,
+      convertZawgyi: flags['no-zawgyi'] ? false : undefined,
+      fetchBackend: oneOf('backend', flags.backend, ['direct', 'proxy-chain', 'local-proxy'] as const),
+      concurrency: toNumber('concurrency', flags.concurrency),
+      perHostConcurrency: toNumber('per-host', flags['per-host']),
+      perHostDelayMs: toNumber('delay', flags.delay),
+      maxRetries: toNumber('retries', flags.retries),
+      aiTask: oneOf('ai', flags.ai, ['off', 'summary', 'extract'] as const),
+      translateTo: flags.translate,
+      llmProvider: oneOf('llm-provider', flags['llm-provider'], ['gemini', 'mock'] as const),
+      llmModel: flags['llm-model']
+    })
+  };
+  if (rules.length > 0) config.urlRules = rules;
+  if (placeholderValues.length > 0) {
+    config.placeholderValues = { ...config.placeholderValues, ...Object.fromEntries(placeholderValues) };
+  }
+  if (watchMinutes !== undefined) {
+    config.watch = {
+      intervalMinutes: Math.max(1, watchMinutes),
+      maxMisses: Math.max(1, toNumber('watch-misses', flags['watch-misses']) ?? 5),
+      summarizeNew: !!flags['watch-summarize']
+    };
+  }
+  if (config.mode === 'listing') {
+    config.listing = {
+      maxListingPages: 10,
+      ...config.listing,
+      ...defined({
+        articleSelector: flags['article-selector'],
+        articlePattern: flags['article-pattern'],
+        nextSelector: flags['next-selector'],
+        maxListingPages: toNumber('max-listing-pages', flags['max-listing-pages'])
+      })
+    };
+  }
+  if (config.fetchBackend === 'local-proxy') {
+    fail('The local proxy only runs inside the dev server. Use --backend direct or proxy-chain.');
+  }
+  return config;
+};
+
+const buildExportOptions = (file: Partial<ExportOptions>): ExportOptions => {
+  const format = oneOf('export', flags.export, EXPORT_FORMATS.map(format => format.id)) || file.format || 'txt';
+  return {
+    filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+    includeAssets: false,
+    textVersion: 'both',
+    ...file,
+    format,
+    includeBom: flags.bom ? true : flags['no-bom'] ? false : file.includeBom ?? defaultIncludeBom(format),
+    ...defined({
+      filenameTemplate: flags['filename-template'],
+      includeAssets: flags['include-assets'],
+      textVersion: oneOf('text-version', flags['text-version'], ['original', 'translated', 'both'] as const)
+    })
+  };
+};
+
+// AI tasks on Gemini without a key would fail page by page; the mock has to be asked for
+const checkApiKey = (config: CrawlConfig) => {
+  const usesAi = (config.aiTask && config.aiTask !== 'off') || !!config.translateTo || !!config.watch?.summarizeNew;
+  if (usesAi && (config.llmProvider || 'gemini') === 'gemini' && !process.env.API_KEY) {
+    fail('AI tasks need API_KEY or GEMINI_API_KEY in the environment. Use --llm-provider mock for offline test output.');
+  }
+};
+
+// A directory (existing, or written with a trailing slash) gets the export's own file name
+const resolveOutput = (out: string | undefined, filename: string): string => {
+  if (!out) return filename;
+  const isDirectory = /[\\/]$/.test(out) || (fs.existsSync(out) && fs.statSync(out).isDirectory());
+  return isDirectory ? path.join(out, filename) : out;
+};
+
+const main = async () => {
+  if (flags.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  // Same variable the dev server reads from .env
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+    process.env.API_KEY = process.env.GEMINI_API_KEY;
+  }
+  setDocumentParser(parseWithLinkedom);
+  if (flags['retry-failed'] && !flags.session) {
+    fail('--retry-failed needs --session <file.json> with a saved crawl.');
+  }
+
+  const file = flags.config ? readJson<Partial<CrawlConfig> & { export?: Partial<ExportOptions> }>(flags.config) : {};
+  const { export: fileExport, ...fileConfig } = file;
+  const exportOptions = buildExportOptions(fileExport || {});
+  const sessionFile = flags.session;
+  const saved = sessionFile && fs.existsSync(sessionFile) ? readJson<CrawlSession>(sessionFile) : undefined;
+  if (saved) {
+    const crawlFlags = Object.keys(flags).filter(name => !RESUME_FLAGS.has(name)).map(name => `--${name}`);
+    const ignored = [...(positionals.length > 0 ? ['<url>'] : []), ...crawlFlags];
+    if (ignored.length > 0) {
+      fail(`${sessionFile} holds a saved crawl, which resumes with its own settings. Drop ${ignored.join(', ')} or use a new --session file.`);
+    }
+  }
+  const baseline = flags.compare ? await buildBaseline(readJson<CrawlSession>(flags.compare)) : null;
+
+  const logs: LogEntry[] = saved?.logs || [];
+  const addLog = (message: string, type: LogEntry['type'] = 'info') => {
+    const entry: LogEntry = { id: Math.random().toString(36).substr(2, 9), timestamp: new Date(), message, type };
+    logs.push(entry);
+    console.log(formatLog(entry));
+  };
+
+  const identity = saved
+    ? { id: saved.id, name: saved.name, createdAt: saved.createdAt }
+    : { id: Math.random().toString(36).substr(2, 9), name: '', createdAt: Date.now() };
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  const saveSessionFile = () => {
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    const state = engine.snapshot();
+    if (!sessionFile || !state) return;
+    const session: CrawlSession = {
+      ...identity,
+      name: identity.name || `${state.config.startUrl.replace(/^https?:\/\//, '').substring(0, 40)} · ${new Date(identity.createdAt).toLocaleString()}`,
+      updatedAt: Date.now(),
+      startUrl: state.config.startUrl,
+      mode: state.config.mode,
+      pageCount: state.pages.length,
+      queueCount: state.queue.length,
+      ...state,
+      logs
+    };
+    try {
+      fs.writeFileSync(sessionFile, JSON.stringify(session));
+    } catch (e: any) {
+      addLog(`Could not save session: ${e.message}`, 'warning');
+    }
+  };
+
+  // Statuses replayed by restore() are not the end of this run
+  let started = false;
+  let interrupted = false;
+  let settle: (status: CrawlStatus) => void = () => {};
+  const settled = new Promise<CrawlStatus>(resolve => { settle = resolve; });
+
+  const engine = createCrawlEngine({
+    onLog: addLog,
+    onStatus: status => {
+      if (!started) return;
+      if (status === CrawlStatus.COMPLETED || status === CrawlStatus.ERROR || (status === CrawlStatus.PAUSED && interrupted)) {
+        settle(status);
+      }
+    },
+    onCheckpoint: immediate => {
+      if (immediate) saveSessionFile();
+      else if (!saveTimer) saveTimer = setTimeout(saveSessionFile, 3000);
+    }
+  });
+
+  // First Ctrl+C pauses and still writes the export; a second one quits at once
+  process.on('SIGINT', () => {
+    if (interrupted) process.exit(130);
+    interrupted = true;
+    engine.stop();
+  });
+
+  if (saved) {
+    checkApiKey(saved.config);
+    engine.restore(saved, baseline);
+    addLog(`Loaded session ${sessionFile}: ${saved.pages.length} pages, ${saved.queue.length} queued.`, 'info');
+    if (Object.keys(fileConfig).length > 0) {
+      addLog(`Crawl settings in ${flags.config} are ignored; the session keeps its own.`, 'warning');
+    }
+    started = true;
+    const hasFailed = saved.pages.some(page => page.status === 'failed');
+    if (flags['retry-failed'] && !hasFailed) {
+      addLog("No failed pages to retry.", 'info');
+    }
+    if (flags['retry-failed'] && hasFailed) {
+      engine.retryFailed();
+    } else if (!engine.resume()) {
+      addLog("Nothing left to crawl in this session.", 'info');
+      settle(engine.getStatus());
+    }
+  } else {
+    if (flags['retry-failed']) {
+      addLog(`No saved crawl in ${sessionFile}. Starting a new one; there is nothing to retry.`, 'warning');
+    }
+    const config = buildConfig(fileConfig);
+    checkApiKey(config);
+    const configError = validateCrawlConfig(config);
+    if (configError) fail(configError);
+    if (baseline) {
+      addLog(`Comparing with "${baseline.name}" (${baseline.entries.size} pages).`, 'info');
+    }
+    started = true;
+    await engine.start({ ...config, compareWithSessionId: baseline?.sessionId }, baseline);
+  }
+
+  const status = await settled;
+  saveSessionFile();
+
+  const pages = (engine.snapshot()?.pages || [])
+    .filter(page => !flags['changed-only'] || !baseline || page.change === 'new' || page.change === 'changed');
+  if (pages.length === 0) {
+    addLog("No data to export.", 'warning');
+    return status === CrawlStatus.ERROR ? 1 : 0;
+  }
+
+  let assetEntries: ZipEntry[] = [];
+  const assetCount = pages.reduce((acc, p) => acc + (p.assets?.length || 0), 0);
+  if (exportOptions.format === 'zip' && exportOptions.includeAssets && assetCount > 0) {
+    addLog(`Downloading ${assetCount} assets for the ZIP...`, 'info');
+    assetEntries = await downloadPageAssets(pages, assetFolderFor(pages, exportOptions), url => fetchBinaryContent(url));
+    const downloaded = assetEntries.filter(entry => !entry.name.endsWith('manifest.json')).length;
+    addLog(`Downloaded ${downloaded}/${assetCount} assets.`, downloaded < assetCount ? 'warning' : 'success');
+  }
+  const result = buildExport(pages, exportOptions, assetEntries);
+  const target = resolveOutput(flags.out, result.filename);
+  fs.mkdirSync(path.dirname(path.resolve(target)), { recursive: true });
+  fs.writeFileSync(target, result.data);
+  addLog(`Wrote ${target} (${pages.length} pages).`, 'success');
+  return status === CrawlStatus.ERROR ? 1 : 0;
+};
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error);
+    process.exit(1);
+  }
+);
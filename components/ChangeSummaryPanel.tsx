@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { ChangeStatus, CrawledPage } from '../types';
+import { Baseline, BaselineEntry, CHANGE_LABELS } from '../services/changeDetection';
+import { GitCompare, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ChangeSummaryPanelProps {
+  baseline: Baseline;
+  pages: CrawledPage[];
+  gone: BaselineEntry[] | null; // Null while the crawl is still running
+}
+
+const COUNT_STYLES: Record<ChangeStatus, string> = {
+  new: 'text-sky-400',
+  changed: 'text-orange-400',
+  unchanged: 'text-slate-400',
+  gone: 'text-red-400'
+};
+
+const ChangeSummaryPanel: React.FC<ChangeSummaryPanelProps> = ({ baseline, pages, gone }) => {
+  const [showGone, setShowGone] = useState<boolean>(false);
+  const counts: Record<ChangeStatus, number> = { new: 0, changed: 0, unchanged: 0, gone: gone?.length || 0 };
+  pages.forEach(page => {
+    if (page.change && page.change !== 'gone') counts[page.change]++;
+  });
+
+  return (
+    <div className="bg-crawler-panel rounded-lg border border-slate-700 overflow-hidden">
+      <div className="bg-slate-900 px-4 py-2 flex flex-wrap items-center gap-4">
+        <GitCompare className="w-4 h-4 text-crawler-accent" />
+        <span className="text-sm font-mono text-slate-300 font-bold">CHANGES</span>
+        <span className="text-[10px] text-slate-500 font-mono truncate">since "{baseline.name}" ({baseline.entries.size} pages)</span>
+        <div className="flex-1" />
+        {(Object.keys(counts) as ChangeStatus[]).map(change => (
+          <span key={change} className={`text-xs font-mono ${COUNT_STYLES[change]}`}>
+            {CHANGE_LABELS[change]}: {change === 'gone' && gone === null ? '…' : counts[change]}
+          </span>
+        ))}
+        {gone && gone.length > 0 && (
+          <button onClick={() => setShowGone(!showGone)} className="text-[10px] flex items-center gap-1 text-slate-400 hover:text-white">
+            {showGone ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />} Gone pages
+          </button>
+        )}
+      </div>
+      {showGone && gone && gone.length > 0 && (
+        <ul className="p-3 space-y-1 max-h-48 overflow-auto">
+          {gone.map(entry => (
+            <li key={entry.url} className="text-[10px] font-mono flex gap-2 min-w-0">
+              <span className="text-slate-300 truncate">{entry.title || 'No Title'}</span>
+              <a href={entry.url} target="_blank" rel="noreferrer" className="text-slate-500 hover:text-slate-300 truncate">{entry.url}</a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ChangeSummaryPanel;
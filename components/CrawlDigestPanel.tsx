@@ -0,0 +1,62 @@
+import React from 'react';
+import { CrawlDigest, CrawledPage } from '../types';
+import { BookOpen, Download, X } from 'lucide-react';
+
+interface CrawlDigestPanelProps {
+  digest: CrawlDigest;
+  pages: CrawledPage[];
+  onSelect: (page: CrawledPage) => void;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+const CrawlDigestPanel: React.FC<CrawlDigestPanelProps> = ({ digest, pages, onSelect, onDownload, onClose }) => {
+  const byUrl = new Map(pages.map(page => [page.url, page]));
+
+  return (
+    <div className="bg-crawler-panel rounded-lg border border-slate-700 overflow-hidden shadow-xl">
+      <div className="bg-slate-900 px-4 py-2 border-b border-slate-700 flex items-center gap-2">
+        <BookOpen className="w-4 h-4 text-crawler-accent" />
+        <span className="text-sm font-mono text-slate-300 font-bold">CRAWL DIGEST</span>
+        <span className="text-[10px] text-slate-500">
+          {digest.pageCount} pages · {digest.topics.length} topics · {new Date(digest.generatedAt).toLocaleString()}
+        </span>
+        <div className="flex-1" />
+        <button onClick={onDownload} title="Download as Markdown" className="p-1 text-slate-400 hover:text-white">
+          <Download className="w-4 h-4" />
+        </button>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-4 space-y-4 max-h-[32rem] overflow-auto">
+        {digest.overview && <p className="text-sm text-slate-300 leading-relaxed">{digest.overview}</p>}
+        {digest.topics.map(topic => (
+          <div key={topic.title} className="border-t border-slate-800 pt-3">
+            <h4 className="text-sm font-bold text-white mb-1">{topic.title}</h4>
+            <p className="text-xs text-slate-400 leading-relaxed mb-2">{topic.summary}</p>
+            <ul className="space-y-1">
+              {topic.pageUrls.map(url => {
+                const page = byUrl.get(url);
+                return (
+                  <li key={url} className="text-xs font-mono flex items-center gap-2 min-w-0">
+                    {page ? (
+                      <button onClick={() => onSelect(page)} className="text-crawler-accent hover:underline truncate text-left" title={url}>
+                        {page.title || url}
+                      </button>
+                    ) : (
+                      <span className="text-slate-500 truncate">{url}</span>
+                    )}
+                    <a href={url} target="_blank" rel="noreferrer" className="text-slate-600 hover:text-slate-300 shrink-0">↗</a>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CrawlDigestPanel;
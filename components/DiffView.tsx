@@ -0,0 +1,62 @@
+import React, { useMemo } from 'react';
+import { diffLines, DiffLine } from '../services/changeDetection';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+}
+
+const CONTEXT_LINES = 3;
+
+type DiffRow = DiffLine | { type: 'skip'; count: number };
+
+// Long unchanged stretches collapse to a marker, keeping a few lines of context around each change
+const collapse = (lines: DiffLine[]): DiffRow[] => {
+  const keep = lines.map(line => line.type !== 'same');
+  lines.forEach((line, i) => {
+    if (line.type === 'same') return;
+    for (let k = Math.max(0, i - CONTEXT_LINES); k <= Math.min(lines.length - 1, i + CONTEXT_LINES); k++) keep[k] = true;
+  });
+
+  const rows: DiffRow[] = [];
+  lines.forEach((line, i) => {
+    if (keep[i]) {
+      rows.push(line);
+      return;
+    }
+    const last = rows[rows.length - 1];
+    if (last && last.type === 'skip') last.count++;
+    else rows.push({ type: 'skip', count: 1 });
+  });
+  return rows;
+};
+
+const DiffView: React.FC<DiffViewProps> = ({ before, after }) => {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const rows = useMemo(() => collapse(lines), [lines]);
+  const added = lines.filter(line => line.type === 'added').length;
+  const removed = lines.filter(line => line.type === 'removed').length;
+
+  return (
+    <div className="font-mono text-xs">
+      <p className="text-[10px] text-slate-500 mb-2">
+        <span className="text-green-400">+{added}</span> / <span className="text-red-400">-{removed}</span> lines
+      </p>
+      <div className="border border-slate-800 rounded overflow-hidden">
+        {rows.map((row, idx) => row.type === 'skip' ? (
+          <div key={idx} className="px-2 py-0.5 bg-slate-900 text-slate-600 text-[10px]">⋯ {row.count} unchanged lines</div>
+        ) : (
+          <div
+            key={idx}
+            className={`px-2 whitespace-pre-wrap break-words ${row.type === 'added' ? 'bg-green-900/30 text-green-300' : row.type === 'removed' ? 'bg-red-900/30 text-red-300' : 'text-slate-400'}`}
+          >
+            <span className="select-none text-slate-600 mr-2">{row.type === 'added' ? '+' : row.type === 'removed' ? '-' : ' '}</span>
+            {row.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DiffView;
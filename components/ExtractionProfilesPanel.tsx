@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { ExtractionField, ExtractionProfile, FetchBackendId } from '../types';
+import { createProfile, profileMatches, validateProfile } from '../services/extractionProfiles';
+import { fetchUrlContent, parseHtml, ParsedPage } from '../services/crawlerService';
+import { Crosshair, Plus, Trash2, ArrowUp, ArrowDown, FlaskConical, Loader2 } from 'lucide-react';
+
+interface ExtractionProfilesPanelProps {
+  profiles: ExtractionProfile[];
+  onChange: (profiles: ExtractionProfile[]) => void;
+  fetchBackend: FetchBackendId; // Backend selected in the settings, used for test fetches
+  disabled?: boolean;
+}
+
+interface TestResult {
+  url: string;
+  matched: boolean;
+  withProfile: ParsedPage;
+  defaultLength: number;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded py-1 px-2 text-white text-xs font-mono outline-none';
+
+const ExtractionProfilesPanel: React.FC<ExtractionProfilesPanelProps> = ({ profiles, onChange, fetchBackend, disabled }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(profiles[0]?.id || null);
+  const [testUrl, setTestUrl] = useState<string>('');
+  const [testing, setTesting] = useState<boolean>(false);
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const [testError, setTestError] = useState<string>('');
+
+  const selected = profiles.find(profile => profile.id === selectedId) || null;
+  const error = selected ? validateProfile(selected) : null;
+
+  const addProfile = () => {
+    const profile = createProfile();
+    onChange([...profiles, profile]);
+    setSelectedId(profile.id);
+    setTestResult(null);
+  };
+
+  const updateProfile = (patch: Partial<ExtractionProfile>) => {
+    if (!selected) return;
+    onChange(profiles.map(profile => profile.id === selected.id ? { ...profile, ...patch } : profile));
+  };
+
+  const removeProfile = (id: string) => {
+    const next = profiles.filter(profile => profile.id !== id);
+    onChange(next);
+    if (id === selectedId) setSelectedId(next[0]?.id || null);
+  };
+
+  const moveProfile = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= profiles.length) return;
+    const next = [...profiles];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const updateField = (index: number, patch: Partial<ExtractionField>) => {
+    if (!selected) return;
+    updateProfile({ fields: selected.fields.map((field, i) => i === index ? { ...field, ...patch } : field) });
+  };
+
+  const runTest = async () => {
+    if (!selected || !testUrl) return;
+    setTesting(true);
+    setTestError('');
+    setTestResult(null);
+    try {
+      const { html, finalUrl } = await fetchUrlContent(testUrl, { backend: fetchBackend });
+      setTestResult({
+        url: finalUrl,
+        matched: profileMatches(selected, finalUrl),
+        withProfile: parseHtml(html, finalUrl, selected),
+        defaultLength: parseHtml(html, finalUrl).text.length
+      });
+    } catch (e: any) {
+      setTestError(e.message);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="bg-crawler-panel rounded-lg border border-slate-700 overflow-hidden shadow-xl">
+      <div className="bg-slate-900 px-4 py-2 border-b border-slate-700 flex items-center gap-2">
+        <Crosshair className="w-4 h-4 text-crawler-accent" />
+        <span className="text-sm font-mono text-slate-300 font-bold">EXTRACTION PROFILES</span>
+        <span className="text-[10px] text-slate-500">first enabled match wins</span>
+        <button
+          onClick={addProfile}
+          disabled={disabled}
+          className="ml-auto text-[10px] px-2 py-0.5 rounded border border-slate-600 text-slate-400 hover:text-white flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> New profile
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4">
+        {/* Profile List */}
+        <div className="space-y-1">
+          {profiles.length === 0 && (
+            <p className="text-[10px] text-slate-500">No profiles: every page uses the built-in extraction.</p>
+          )}
+          {profiles.map((profile, idx) => (
+            <div
+              key={profile.id}
+              onClick={() => { setSelectedId(profile.id); setTestResult(null); }}
+              className={`flex items-center gap-2 p-2 rounded cursor-pointer text-xs font-mono ${profile.id === selectedId ? 'bg-slate-800 border border-crawler-accent/50' : 'border border-transparent hover:bg-slate-800/50'}`}
+            >
+              <input
+                type="checkbox"
+                checked={profile.enabled}
+                disabled={disabled}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => onChange(profiles.map(p => p.id === profile.id ? { ...p, enabled: e.target.checked } : p))}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-slate-200 truncate">{profile.name}</div>
+                <div className="text-[10px] text-slate-500 truncate">{profile.match || 'no pattern'}</div>
+              </div>
+              <button onClick={(e) => { e.stopPropagation(); moveProfile(idx, -1); }} disabled={disabled || idx === 0} className="p-0.5 text-slate-400 hover:text-white disabled:opacity-30">
+                <ArrowUp className="w-3 h-3" />
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); moveProfile(idx, 1); }} disabled={disabled || idx === profiles.length - 1} className="p-0.5 text-slate-400 hover:text-white disabled:opacity-30">
+                <ArrowDown className="w-3 h-3" />
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); removeProfile(profile.id); }} disabled={disabled} className="p-0.5 text-slate-400 hover:text-red-400">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Editor */}
+        {selected && (
+          <div className="md:col-span-2 space-y-3">
+            <div className="flex gap-2 items-center">
+              <input
+                type="text"
+                value={selected.name}
+                onChange={(e) => updateProfile({ name: e.target.value })}
+                disabled={disabled}
+                placeholder="Profile name"
+                className={`w-40 ${inputClass}`}
+              />
+              <select
+                value={selected.matchType}
+                onChange={(e) => updateProfile({ matchType: e.target.value as ExtractionProfile['matchType'] })}
+                disabled={disabled}
+                className={inputClass}
+              >
+                <option value="host">Hostname</option>
+                <option value="glob">URL glob</option>
+                <option value="regex">URL regex</option>
+              </select>
+              <input
+                type="text"
+                value={selected.match}
+                onChange={(e) => updateProfile({ match: e.target.value })}
+                disabled={disabled}
+                placeholder={selected.matchType === 'host' ? 'moi.gov.mm' : selected.matchType === 'glob' ? 'https://www.moi.gov.mm/news/*' : '/news/\\d+'}
+                className={`flex-1 ${inputClass}`}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <label className="text-[10px] text-slate-400 font-mono uppercase space-y-1">
+                <span>Content selector</span>
+                <input
+                  type="text"
+                  value={selected.contentSelector || ''}
+                  onChange={(e) => updateProfile({ contentSelector: e.target.value || undefined })}
+                  disabled={disabled}
+                  placeholder=".news-detail .body"
+                  className={`w-full normal-case ${inputClass}`}
+                />
+              </label>
+              <label className="text-[10px] text-slate-400 font-mono uppercase space-y-1">
+                <span>Title selector</span>
+                <input
+                  type="text"
+                  value={selected.titleSelector || ''}
+                  onChange={(e) => updateProfile({ titleSelector: e.target.value || undefined })}
+                  disabled={disabled}
+                  placeholder="h1.page-title"
+                  className={`w-full normal-case ${inputClass}`}
+                />
+              </label>
+            </div>
+
+            <label className="block text-[10px] text-slate-400 font-mono uppercase space-y-1">
+              <span>Also remove (one selector per line)</span>
+              <textarea
+                value={selected.removeSelectors.join('\n')}
+                onChange={(e) => updateProfile({ removeSelectors: e.target.value.split('\n') })}
+                disabled={disabled}
+                rows={2}
+                placeholder={'.views-field-created\n.region-sidebar'}
+                className={`w-full normal-case resize-y ${inputClass}`}
+              />
+            </label>
+
+            {/* Fields */}
+            <div className="space-y-1">
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] text-slate-400 font-mono uppercase">Fields to capture</span>
+                <button
+                  onClick={() => updateProfile({ fields: [...selected.fields, { name: '', selector: '' }] })}
+                  disabled={disabled}
+                  className="text-[10px] flex items-center gap-1 px-2 py-0.5 rounded border border-slate-600 text-slate-400 hover:text-white"
+                >
+                  <Plus className="w-3 h-3" /> Field
+                </button>
+              </div>
+              {selected.fields.map((field, idx) => (
+                <div key={idx} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={field.name}
+                    onChange={(e) => updateField(idx, { name: e.target.value })}
+                    disabled={disabled}
+                    placeholder="date"
+                    className={`w-24 ${inputClass}`}
+                  />
+                  <input
+                    type="text"
+                    value={field.selector}
+                    onChange={(e) => updateField(idx, { selector: e.target.value })}
+                    disabled={disabled}
+                    placeholder=".date-display-single"
+                    className={`flex-1 ${inputClass}`}
+                  />
+                  <input
+                    type="text"
+                    value={field.attribute || ''}
+                    onChange={(e) => updateField(idx, { attribute: e.target.value || undefined })}
+                    disabled={disabled}
+                    placeholder="attr (text)"
+                    title="Read this attribute instead of the text"
+                    className={`w-24 ${inputClass}`}
+                  />
+                  <label className="flex items-center gap-1 text-[10px] text-slate-400" title="Collect every match">
+                    <input
+                      type="checkbox"
+                      checked={!!field.multiple}
+                      onChange={(e) => updateField(idx, { multiple: e.target.checked })}
+                      disabled={disabled}
+                    />
+                    All
+                  </label>
+                  <button
+                    onClick={() => updateProfile({ fields: selected.fields.filter((_, i) => i !== idx) })}
+                    disabled={disabled}
+                    className="p-0.5 text-slate-400 hover:text-red-400"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+            {/* Live Tester */}
+            <div className="flex gap-2 items-center pt-2 border-t border-slate-800">
+              <FlaskConical className="w-4 h-4 text-slate-500" />
+              <input
+                type="text"
+                value={testUrl}
+                onChange={(e) => setTestUrl(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && runTest()}
+                placeholder="Test against this URL..."
+                className={`flex-1 ${inputClass}`}
+              />
+              <button
+                onClick={runTest}
+                disabled={testing || !testUrl}
+                className="text-xs flex items-center gap-1 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+              >
+                {testing ? <Loader2 className="w-3 h-3 animate-spin" /> : <FlaskConical className="w-3 h-3" />} Test
+              </button>
+            </div>
+            {testError && <p className="text-[10px] text-red-400">{testError}</p>}
+            {testResult && (
+              <div className="bg-slate-950 rounded border border-slate-800 p-3 space-y-2 text-xs font-mono">
+                <div className="flex flex-wrap gap-2 text-[10px]">
+                  <span className={`px-2 py-0.5 rounded border ${testResult.matched ? 'text-green-400 border-green-900/50 bg-green-900/20' : 'text-yellow-400 border-yellow-900/50 bg-yellow-900/20'}`}>
+                    {testResult.matched ? 'PATTERN MATCHES' : 'PATTERN DOES NOT MATCH THIS URL'}
+                  </span>
+                  <span className="text-slate-400">
+                    {testResult.withProfile.text.length} chars with profile · {testResult.defaultLength} built-in
+                  </span>
+                </div>
+                {testResult.withProfile.warnings.map(warning => (
+                  <p key={warning} className="text-[10px] text-yellow-400">{warning}</p>
+                ))}
+                <div><span className="text-slate-500">Title:</span> <span className="text-white">{testResult.withProfile.title || '-'}</span></div>
+                {testResult.withProfile.fields && Object.entries(testResult.withProfile.fields).map(([name, value]) => (
+                  <div key={name}><span className="text-slate-500">{name}:</span> <span className="text-slate-200 whitespace-pre-wrap">{value}</span></div>
+                ))}
+                <pre className="whitespace-pre-wrap text-slate-300 max-h-60 overflow-y-auto border-t border-slate-800 pt-2">
+                  {testResult.withProfile.text.substring(0, 2000)}
+                  {testResult.withProfile.text.length > 2000 && '\n…'}
+                </pre>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExtractionProfilesPanel;
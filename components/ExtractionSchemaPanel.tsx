@@ -0,0 +1,106 @@
+import React from 'react';
+import { SchemaField, SchemaFieldType } from '../types';
+import { createSchemaField, SCHEMA_FIELD_TYPES, validateSchema, DEFAULT_SCHEMA } from '../services/extractionSchema';
+import { Braces, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw } from 'lucide-react';
+
+interface ExtractionSchemaPanelProps {
+  schema: SchemaField[];
+  onChange: (schema: SchemaField[]) => void;
+  disabled?: boolean;
+}
+
+const ExtractionSchemaPanel: React.FC<ExtractionSchemaPanelProps> = ({ schema, onChange, disabled }) => {
+  const error = validateSchema(schema);
+
+  const updateField = (id: string, patch: Partial<SchemaField>) => {
+    onChange(schema.map(field => field.id === id ? { ...field, ...patch } : field));
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= schema.length) return;
+    const next = [...schema];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-mono text-slate-400 font-bold uppercase ml-1 flex items-center gap-2">
+          <Braces className="w-3 h-3" /> Extraction Schema (one record per page)
+        </span>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onChange(DEFAULT_SCHEMA.map(field => ({ ...field })))}
+            disabled={disabled}
+            title="Restore the example news schema"
+            className="text-xs flex items-center gap-1 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            <RotateCcw className="w-3 h-3" /> Example
+          </button>
+          <button
+            onClick={() => onChange([...schema, createSchemaField()])}
+            disabled={disabled}
+            className="text-xs flex items-center gap-1 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            <Plus className="w-3 h-3" /> Add Field
+          </button>
+        </div>
+      </div>
+
+      {schema.map((field, idx) => (
+        <div key={field.id} className="flex gap-2 items-center">
+          <input
+            type="text"
+            value={field.name}
+            onChange={(e) => updateField(field.id, { name: e.target.value.replace(/\s+/g, '_') })}
+            disabled={disabled}
+            placeholder="field_name"
+            className="w-36 bg-slate-900 border border-slate-600 rounded py-2 px-2 text-white text-xs font-mono outline-none"
+          />
+          <select
+            value={field.type}
+            onChange={(e) => updateField(field.id, { type: e.target.value as SchemaFieldType })}
+            disabled={disabled}
+            className="bg-slate-900 border border-slate-600 rounded py-2 px-2 text-xs font-mono text-slate-300"
+          >
+            {SCHEMA_FIELD_TYPES.map(type => (
+              <option key={type.id} value={type.id}>{type.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={field.description}
+            onChange={(e) => updateField(field.id, { description: e.target.value })}
+            disabled={disabled}
+            placeholder="What the model should put here"
+            className="flex-1 bg-slate-900 border border-slate-600 rounded py-2 px-3 text-white text-xs font-mono outline-none"
+          />
+          <label className="flex items-center gap-1 text-[10px] text-slate-400 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={field.required}
+              onChange={(e) => updateField(field.id, { required: e.target.checked })}
+              disabled={disabled}
+            />
+            Required
+          </label>
+          <button onClick={() => moveField(idx, -1)} disabled={disabled || idx === 0} className="p-1 text-slate-400 hover:text-white disabled:opacity-30">
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          <button onClick={() => moveField(idx, 1)} disabled={disabled || idx === schema.length - 1} className="p-1 text-slate-400 hover:text-white disabled:opacity-30">
+            <ArrowDown className="w-4 h-4" />
+          </button>
+          <button onClick={() => onChange(schema.filter(f => f.id !== field.id))} disabled={disabled} className="p-1 text-slate-400 hover:text-red-400">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {error && <p className="text-[10px] text-red-400 ml-1">{error}</p>}
+    </div>
+  );
+};
+
+export default ExtractionSchemaPanel;
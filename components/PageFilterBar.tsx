@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { PageFilter, EMPTY_FILTER, isFilterActive } from '../services/searchService';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+
+interface PageFilterBarProps {
+  filter: PageFilter;
+  onChange: (filter: PageFilter) => void;
+  domains: string[];
+  matchCount: number;
+  totalCount: number;
+  showChange?: boolean; // Pages were compared with an earlier run
+}
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-[10px] font-mono outline-none';
+
+const PageFilterBar: React.FC<PageFilterBarProps> = ({ filter, onChange, domains, matchCount, totalCount, showChange }) => {
+  const [showFilters, setShowFilters] = useState<boolean>(false);
+  const update = (patch: Partial<PageFilter>) => onChange({ ...filter, ...patch });
+  const active = isFilterActive(filter);
+
+  return (
+    <div className="px-2 pt-2 space-y-2 border-b border-slate-800 pb-2">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 relative">
+          <Search className="w-3 h-3 text-slate-500 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={filter.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search titles and content…"
+            className="w-full bg-slate-900 border border-slate-700 rounded py-1 pl-7 pr-2 text-white text-xs outline-none focus:border-crawler-accent"
+          />
+        </div>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          title="Filter by status, domain, date and size"
+          className={`p-1 rounded border ${showFilters ? 'border-crawler-accent text-crawler-accent' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+        >
+          <SlidersHorizontal className="w-3 h-3" />
+        </button>
+        {active && (
+          <button onClick={() => onChange(EMPTY_FILTER)} title="Clear search and filters" className="p-1 text-slate-400 hover:text-white">
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 gap-2 text-[10px] text-slate-400">
+          <select value={filter.status} onChange={(e) => update({ status: e.target.value as PageFilter['status'] })} className={inputClass}>
+            <option value="all">All statuses</option>
+            <option value="success">Success</option>
+            <option value="failed">Failed</option>
+          </select>
+          <select value={filter.domain} onChange={(e) => update({ domain: e.target.value })} className={inputClass}>
+            <option value="">All domains</option>
+            {domains.map(domain => <option key={domain} value={domain}>{domain}</option>)}
+          </select>
+          <label className="flex items-center gap-1" title="Published date, or crawl date when the page has none">
+            From
+            <input type="date" value={filter.dateFrom} onChange={(e) => update({ dateFrom: e.target.value })} className={`${inputClass} flex-1 min-w-0`} />
+          </label>
+          <label className="flex items-center gap-1">
+            To
+            <input type="date" value={filter.dateTo} onChange={(e) => update({ dateTo: e.target.value })} className={`${inputClass} flex-1 min-w-0`} />
+          </label>
+          <label className="flex items-center gap-1">
+            Min KB
+            <input type="number" min={0} value={filter.minKb || ''} onChange={(e) => update({ minKb: parseFloat(e.target.value) || 0 })} className={`${inputClass} flex-1 min-w-0`} />
+          </label>
+          <label className="flex items-center gap-1">
+            Max KB
+            <input type="number" min={0} value={filter.maxKb || ''} onChange={(e) => update({ maxKb: parseFloat(e.target.value) || 0 })} className={`${inputClass} flex-1 min-w-0`} />
+          </label>
+          {showChange && (
+            <select value={filter.change} onChange={(e) => update({ change: e.target.value as PageFilter['change'] })} className={`${inputClass} col-span-2`}>
+              <option value="all">All changes</option>
+              <option value="new-or-changed">New or changed</option>
+              <option value="new">New</option>
+              <option value="changed">Changed</option>
+              <option value="unchanged">Unchanged</option>
+            </select>
+          )}
+        </div>
+      )}
+
+      {active && (
+        <p className="text-[10px] text-slate-500 font-mono">{matchCount} of {totalCount} pages</p>
+      )}
+    </div>
+  );
+};
+
+export default PageFilterBar;
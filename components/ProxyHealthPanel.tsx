@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { ProxyConfig } from '../types';
+import {
+  getProxies,
+  getProxyStatuses,
+  setProxies,
+  resetProxies,
+  resetProxyHealth,
+  subscribeProxyHealth,
+  ProxyStatus
+} from '../services/proxyRegistry';
+import { Server, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw } from 'lucide-react';
+
+const ProxyHealthPanel: React.FC = () => {
+  const [statuses, setStatuses] = useState<ProxyStatus[]>(getProxyStatuses());
+  const [newName, setNewName] = useState<string>('');
+  const [newTemplate, setNewTemplate] = useState<string>('');
+  const [newFormat, setNewFormat] = useState<ProxyConfig['format']>('text');
+
+  useEffect(() => {
+    const refresh = () => setStatuses(getProxyStatuses());
+    const unsubscribe = subscribeProxyHealth(refresh);
+    // Quarantine countdowns expire without any event
+    const timer = setInterval(refresh, 5000);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, []);
+
+  const updateProxy = (id: string, patch: Partial<ProxyConfig>) => {
+    setProxies(getProxies().map(proxy => proxy.id === id ? { ...proxy, ...patch } : proxy));
+  };
+
+  const moveProxy = (index: number, offset: number) => {
+    const target = index + offset;
+    const list = [...getProxies()];
+    if (target < 0 || target >= list.length) return;
+    [list[index], list[target]] = [list[target], list[index]];
+    setProxies(list);
+  };
+
+  const removeProxy = (id: string) => {
+    setProxies(getProxies().filter(proxy => proxy.id !== id));
+  };
+
+  const addProxy = () => {
+    if (!newTemplate.includes('{url}') && !newTemplate.includes('{rawUrl}')) return;
+    let name = newName.trim();
+    if (!name) {
+      try {
+        name = new URL(newTemplate.replace(/\{(raw)?url\}/gi, '')).hostname;
+      } catch (e) {
+        name = 'Custom proxy';
+      }
+    }
+    setProxies([...getProxies(), {
+      id: Math.random().toString(36).substr(2, 9),
+      name,
+      template: newTemplate.trim(),
+      format: newFormat,
+      enabled: true
+    }]);
+    setNewName('');
+    setNewTemplate('');
+  };
+
+  const formatStatus = (status: ProxyStatus) => {
+    if (!status.enabled) return <span className="text-slate-500">Disabled</span>;
+    if (status.quarantined) {
+      const seconds = Math.ceil(((status.health.quarantinedUntil || 0) - Date.now()) / 1000);
+      return <span className="text-red-400">Quarantined {seconds}s</span>;
+    }
+    if (status.health.successes + status.health.failures === 0) return <span className="text-slate-400">Untested</span>;
+    return <span className="text-green-400">Active</span>;
+  };
+
+  const isTemplateValid = newTemplate.includes('{url}') || newTemplate.includes('{rawUrl}');
+
+  return (
+    <div className="bg-crawler-panel rounded-lg border border-slate-700 overflow-hidden shadow-xl">
+      <div className="bg-slate-900 px-4 py-2 border-b border-slate-700 flex items-center gap-2">
+        <Server className="w-4 h-4 text-crawler-accent" />
+        <span className="text-sm font-mono text-slate-300 font-bold">PROXY HEALTH</span>
+        <button
+          onClick={resetProxyHealth}
+          title="Clear health statistics and quarantines"
+          className="ml-auto text-[10px] px-2 py-0.5 rounded border border-slate-600 text-slate-400 hover:text-white"
+        >
+          Reset stats
+        </button>
+        <button
+          onClick={resetProxies}
+          title="Restore the built-in proxy list"
+          className="text-[10px] px-2 py-0.5 rounded border border-slate-600 text-slate-400 hover:text-white flex items-center gap-1"
+        >
+          <RotateCcw className="w-3 h-3" /> Defaults
+        </button>
+      </div>
+      <div className="p-2 overflow-x-auto">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-500 text-left">
+              <th className="p-1">On</th>
+              <th className="p-1">Proxy</th>
+              <th className="p-1">Status</th>
+              <th className="p-1 text-right">Success</th>
+              <th className="p-1 text-right">Latency</th>
+              <th className="p-1">Last failure</th>
+              <th className="p-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {statuses.map((status, idx) => {
+              const { health } = status;
+              const total = health.successes + health.failures;
+              return (
+                <tr key={status.id} className="border-t border-slate-800 text-slate-300">
+                  <td className="p-1">
+                    <input
+                      type="checkbox"
+                      checked={status.enabled}
+                      onChange={(e) => updateProxy(status.id, { enabled: e.target.checked })}
+                    />
+                  </td>
+                  <td className="p-1" title={status.template}>{status.name}</td>
+                  <td className="p-1">{formatStatus(status)}</td>
+                  <td className="p-1 text-right">
+                    {total > 0 ? `${Math.round((health.successes / total) * 100)}% (${health.successes}/${total})` : '-'}
+                  </td>
+                  <td className="p-1 text-right">{health.avgLatencyMs > 0 ? `${(health.avgLatencyMs / 1000).toFixed(1)}s` : '-'}</td>
+                  <td className="p-1 text-slate-500 truncate max-w-[200px]" title={health.lastError}>
+                    {health.lastFailureAt ? `${new Date(health.lastFailureAt).toLocaleTimeString()} ${health.lastError || ''}` : '-'}
+                  </td>
+                  <td className="p-1 whitespace-nowrap text-right">
+                    <button onClick={() => moveProxy(idx, -1)} disabled={idx === 0} className="p-0.5 text-slate-400 hover:text-white disabled:opacity-30">
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => moveProxy(idx, 1)} disabled={idx === statuses.length - 1} className="p-0.5 text-slate-400 hover:text-white disabled:opacity-30">
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => removeProxy(status.id)} className="p-0.5 text-slate-400 hover:text-red-400">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-[10px] text-slate-500 mt-2 ml-1">
+          Proxies are tried healthiest first; the order above breaks ties. Three failures in a row quarantines a proxy for a while.
+        </p>
+
+        {/* Add Proxy */}
+        <div className="flex gap-2 items-center mt-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name"
+            className="w-28 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+          />
+          <input
+            type="text"
+            value={newTemplate}
+            onChange={(e) => setNewTemplate(e.target.value)}
+            placeholder="https://my-proxy.example/?url={url}"
+            className="flex-1 bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+          />
+          <select
+            value={newFormat}
+            onChange={(e) => setNewFormat(e.target.value as ProxyConfig['format'])}
+            className="bg-slate-900 border border-slate-700 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+          >
+            <option value="text">Raw body</option>
+            <option value="allorigins-json">AllOrigins JSON</option>
+          </select>
+          <button
+            onClick={addProxy}
+            disabled={!isTemplateValid}
+            title="URL must contain {url} (encoded) or {rawUrl}"
+            className="text-xs flex items-center gap-1 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+          >
+            <Plus className="w-3 h-3" /> Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProxyHealthPanel;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { CrawledPage } from '../types';
+import { formatExtractedValue } from '../services/extractionSchema';
+import { Table2, AlertTriangle } from 'lucide-react';
+
+interface RecordsTableProps {
+  pages: CrawledPage[];
+  columns: string[]; // Field names, in schema order
+  onSelect: (page: CrawledPage) => void;
+}
+
+const RecordsTable: React.FC<RecordsTableProps> = ({ pages, columns, onSelect }) => {
+  const rows = pages.filter(page => page.extracted);
+
+  return (
+    <div className="bg-crawler-panel rounded-lg border border-slate-700 overflow-hidden shadow-xl">
+      <div className="bg-slate-900 px-4 py-2 border-b border-slate-700 flex items-center gap-2">
+        <Table2 className="w-4 h-4 text-crawler-accent" />
+        <span className="text-sm font-mono text-slate-300 font-bold">EXTRACTED RECORDS</span>
+        <span className="text-[10px] text-slate-500">{rows.length} of {pages.length} pages</span>
+      </div>
+      <div className="overflow-auto max-h-96">
+        {rows.length === 0 ? (
+          <p className="text-xs text-slate-600 p-4">No records extracted yet.</p>
+        ) : (
+          <table className="w-full text-xs font-mono">
+            <thead className="sticky top-0 bg-slate-900">
+              <tr className="text-slate-500 text-left">
+                <th className="p-2"></th>
+                {columns.map(column => <th key={column} className="p-2 whitespace-nowrap">{column}</th>)}
+                <th className="p-2">url</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(page => (
+                <tr
+                  key={page.url}
+                  onClick={() => onSelect(page)}
+                  className="border-t border-slate-800 text-slate-300 hover:bg-slate-800/50 cursor-pointer align-top"
+                >
+                  <td className="p-2">
+                    {page.extractionErrors && page.extractionErrors.length > 0 && (
+                      <span title={page.extractionErrors.join('\n')}>
+                        <AlertTriangle className="w-3 h-3 text-yellow-400" />
+                      </span>
+                    )}
+                  </td>
+                  {columns.map(column => (
+                    <td key={column} className="p-2 max-w-[240px] truncate" title={formatExtractedValue(page.extracted![column])}>
+                      {formatExtractedValue(page.extracted![column])}
+                    </td>
+                  ))}
+                  <td className="p-2 text-slate-500 max-w-[200px] truncate" title={page.url}>{page.url}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecordsTable;
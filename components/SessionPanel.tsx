@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { CrawlSessionSummary } from '../services/sessionStore';
+import { History, FolderOpen, Pencil, Trash2, Check, X } from 'lucide-react';
+
+interface SessionPanelProps {
+  sessions: CrawlSessionSummary[];
+  activeSessionId: string | null;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SessionPanel: React.FC<SessionPanelProps> = ({ sessions, activeSessionId, disabled, onOpen, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState<string>('');
+
+  const startEditing = (session: CrawlSessionSummary) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-crawler-panel rounded-lg border border-slate-700 overflow-hidden shadow-xl">
+      <div className="bg-slate-900 px-4 py-2 border-b border-slate-700 flex items-center gap-2">
+        <History className="w-4 h-4 text-crawler-accent" />
+        <span className="text-sm font-mono text-slate-300 font-bold">SAVED SESSIONS</span>
+        <span className="text-[10px] text-slate-500 ml-auto">{sessions.length} stored in this browser</span>
+      </div>
+      <div className="max-h-64 overflow-y-auto p-2 space-y-2">
+        {sessions.length === 0 && (
+          <div className="text-xs text-slate-500 italic p-2">No saved crawls yet. Sessions are saved automatically while crawling.</div>
+        )}
+        {sessions.map(session => (
+          <div
+            key={session.id}
+            className={`bg-slate-900/50 p-3 rounded border flex items-center gap-3 ${session.id === activeSessionId ? 'border-crawler-accent' : 'border-slate-800'}`}
+          >
+            <div className="flex-1 min-w-0">
+              {editingId === session.id ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={draftName}
+                    autoFocus
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 bg-slate-900 border border-slate-600 rounded py-1 px-2 text-white text-xs font-mono outline-none"
+                  />
+                  <button onClick={commitRename} className="p-1 text-green-400 hover:text-green-300"><Check className="w-4 h-4" /></button>
+                  <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:text-white"><X className="w-4 h-4" /></button>
+                </div>
+              ) : (
+                <div className="text-xs text-slate-200 font-semibold truncate" title={session.name}>{session.name}</div>
+              )}
+              <div className="text-[10px] text-slate-500 font-mono truncate">{session.startUrl}</div>
+              <div className="text-[10px] text-slate-500 font-mono">
+                {session.mode} · {session.status} · {session.pageCount} pages · {session.queueCount} queued · {new Date(session.updatedAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              onClick={() => onOpen(session.id)}
+              disabled={disabled}
+              title="Open session"
+              className="p-1 text-slate-400 hover:text-crawler-accent disabled:opacity-30"
+            >
+              <FolderOpen className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => startEditing(session)}
+              title="Rename session"
+              className="p-1 text-slate-400 hover:text-white"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDelete(session.id)}
+              disabled={disabled && session.id === activeSessionId}
+              title="Delete session"
+              className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-30"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionPanel;
@@ -1,14 +1,16 @@
 import React from 'react';
-import { FileText, Link as LinkIcon, Clock, Database } from 'lucide-react';
+import { FileText, Link as LinkIcon, Clock, Database, Activity, Gauge } from 'lucide-react';
 
 interface StatsPanelProps {
   totalPages: number;
   totalLinks: number;
   totalSize: number;
   status: string;
+  inFlight: number;
+  ratePerMinute: number;
 }
 
-const StatsPanel: React.FC<StatsPanelProps> = ({ totalPages, totalLinks, totalSize, status }) => {
+const StatsPanel: React.FC<StatsPanelProps> = ({ totalPages, totalLinks, totalSize, status, inFlight, ratePerMinute }) => {
   const formatBytes = (bytes: number) => {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -18,7 +20,7 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ totalPages, totalLinks, totalSi
   };
 
   return (
-    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
       <div className="bg-crawler-panel border border-slate-700 p-4 rounded-lg">
         <div className="flex items-center gap-2 text-slate-400 mb-1">
           <FileText className="w-4 h-4" />
@@ -43,6 +45,22 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ totalPages, totalLinks, totalSi
         <div className="text-2xl font-mono text-crawler-accent">{formatBytes(totalSize)}</div>
       </div>
 
+      <div className="bg-crawler-panel border border-slate-700 p-4 rounded-lg">
+        <div className="flex items-center gap-2 text-slate-400 mb-1">
+          <Activity className="w-4 h-4" />
+          <span className="text-xs uppercase font-bold">In Flight</span>
+        </div>
+        <div className="text-2xl font-mono text-white">{inFlight}</div>
+      </div>
+
+      <div className="bg-crawler-panel border border-slate-700 p-4 rounded-lg">
+        <div className="flex items-center gap-2 text-slate-400 mb-1">
+          <Gauge className="w-4 h-4" />
+          <span className="text-xs uppercase font-bold">Rate</span>
+        </div>
+        <div className="text-2xl font-mono text-white">{ratePerMinute}<span className="text-xs text-slate-500 ml-1">/min</span></div>
+      </div>
+
       <div className="bg-crawler-panel border border-slate-700 p-4 rounded-lg">
         <div className="flex items-center gap-2 text-slate-400 mb-1">
           <Clock className="w-4 h-4" />
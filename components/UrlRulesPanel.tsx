@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { UrlRule } from '../types';
+import { matchUrlRules, validateUrlRule } from '../services/urlService';
+import { Filter, Plus, Trash2, ArrowUp, ArrowDown, FlaskConical } from 'lucide-react';
+
+interface UrlRulesPanelProps {
+  rules: UrlRule[];
+  onChange: (rules: UrlRule[]) => void;
+  disabled?: boolean;
+}
+
+const UrlRulesPanel: React.FC<UrlRulesPanelProps> = ({ rules, onChange, disabled }) => {
+  const [testUrl, setTestUrl] = useState<string>('');
+
+  const addRule = () => {
+    onChange([...rules, {
+      id: Math.random().toString(36).substr(2, 9),
+      action: 'include',
+      syntax: 'regex',
+      pattern: ''
+    }]);
+  };
+
+  const updateRule = (id: string, patch: Partial<UrlRule>) => {
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...patch } : rule));
+  };
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter(rule => rule.id !== id));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const testResult = testUrl ? matchUrlRules(testUrl, rules) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-mono text-slate-400 font-bold uppercase ml-1 flex items-center gap-2">
+          <Filter className="w-3 h-3" /> URL Rules (first match wins)
+        </span>
+        <button
+          onClick={addRule}
+          disabled={disabled}
+          className="text-xs flex items-center gap-1 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-300 hover:bg-slate-700"
+        >
+          <Plus className="w-3 h-3" /> Add Rule
+        </button>
+      </div>
+
+      {rules.length === 0 && (
+        <p className="text-[10px] text-slate-500 ml-1">No rules: every in-scope link is followed.</p>
+      )}
+
+      {rules.map((rule, idx) => {
+        const error = validateUrlRule(rule);
+        const isMatch = testResult?.rule?.id === rule.id;
+        return (
+          <div key={rule.id} className="space-y-1">
+            <div className={`flex gap-2 items-center rounded ${isMatch ? 'ring-1 ring-crawler-accent' : ''}`}>
+              <select
+                value={rule.action}
+                onChange={(e) => updateRule(rule.id, { action: e.target.value as UrlRule['action'] })}
+                disabled={disabled}
+                className={`bg-slate-900 border border-slate-600 rounded py-2 px-2 text-xs font-mono ${rule.action === 'include' ? 'text-green-400' : 'text-red-400'}`}
+              >
+                <option value="include">Include</option>
+                <option value="exclude">Exclude</option>
+              </select>
+              <select
+                value={rule.syntax}
+                onChange={(e) => updateRule(rule.id, { syntax: e.target.value as UrlRule['syntax'] })}
+                disabled={disabled}
+                className="bg-slate-900 border border-slate-600 rounded py-2 px-2 text-xs font-mono text-slate-300"
+              >
+                <option value="regex">Regex</option>
+                <option value="glob">Glob</option>
+              </select>
+              <input
+                type="text"
+                value={rule.pattern}
+                onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                placeholder={rule.syntax === 'regex' ? '/news/\\d+' : 'https://site.com/tag/**'}
+                disabled={disabled}
+                className={`flex-1 bg-slate-900 border rounded py-2 px-3 text-white text-xs font-mono outline-none ${error && rule.pattern ? 'border-red-500' : 'border-slate-600'}`}
+              />
+              <button onClick={() => moveRule(idx, -1)} disabled={disabled || idx === 0} className="p-1 text-slate-400 hover:text-white disabled:opacity-30">
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => moveRule(idx, 1)} disabled={disabled || idx === rules.length - 1} className="p-1 text-slate-400 hover:text-white disabled:opacity-30">
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button onClick={() => removeRule(rule.id)} disabled={disabled} className="p-1 text-slate-400 hover:text-red-400">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {error && rule.pattern && (
+              <p className="text-[10px] text-red-400 ml-1">{error}</p>
+            )}
+          </div>
+        );
+      })}
+
+      {/* Live Tester */}
+      <div className="flex gap-2 items-center">
+        <FlaskConical className="w-4 h-4 text-slate-500" />
+        <input
+          type="text"
+          value={testUrl}
+          onChange={(e) => setTestUrl(e.target.value)}
+          placeholder="Test this URL..."
+          className="flex-1 bg-slate-900 border border-slate-700 rounded py-2 px-3 text-white text-xs font-mono outline-none"
+        />
+        {testResult && (
+          <span className={`text-[10px] font-mono px-2 py-1 rounded border ${testResult.allowed ? 'text-green-400 border-green-900/50 bg-green-900/20' : 'text-red-400 border-red-900/50 bg-red-900/20'}`}>
+            {testResult.allowed ? 'FOLLOW' : 'SKIP'}
+            {testResult.rule
+              ? ` — rule #${rules.indexOf(testResult.rule) + 1} (${testResult.rule.action})`
+              : ' — no rule matched'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UrlRulesPanel;
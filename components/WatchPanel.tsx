@@ -0,0 +1,49 @@
+import React from 'react';
+import { CrawledPage } from '../types';
+import { Radar } from 'lucide-react';
+
+interface WatchPanelProps {
+  highestId: number;
+  nextCheckAt: number | null; // Null while probing or paused
+  intervalMinutes: number;
+  isRunning: boolean;
+  pages: CrawledPage[];
+  onSelect: (page: CrawledPage) => void;
+}
+
+const WatchPanel: React.FC<WatchPanelProps> = ({ highestId, nextCheckAt, intervalMinutes, isRunning, pages, onSelect }) => {
+  // Newest first
+  const found = pages.filter(page => page.foundByWatch && page.status === 'success').reverse();
+  const state = !isRunning ? 'paused' : nextCheckAt ? `next check at ${new Date(nextCheckAt).toLocaleTimeString()}` : 'checking…';
+
+  return (
+    <div className="bg-crawler-panel rounded-lg border border-slate-700 overflow-hidden">
+      <div className="bg-slate-900 px-4 py-2 border-b border-slate-700 flex items-center gap-2">
+        <Radar className={`w-4 h-4 text-crawler-accent ${isRunning ? 'animate-pulse' : ''}`} />
+        <span className="text-sm font-mono text-slate-300 font-bold">WATCH</span>
+        <span className="text-[10px] text-slate-500 font-mono">
+          Highest ID {highestId} · every {intervalMinutes} min · {state}
+        </span>
+        <div className="flex-1" />
+        <span className="text-xs font-mono text-sky-400">{found.length} new</span>
+      </div>
+      {found.length > 0 ? (
+        <ul className="p-3 space-y-1 max-h-48 overflow-auto">
+          {found.map(page => (
+            <li key={page.url} className="text-xs font-mono flex items-center gap-2 min-w-0">
+              <span className="text-slate-500 shrink-0">#{page.pageId}</span>
+              <button onClick={() => onSelect(page)} className="text-crawler-accent hover:underline truncate text-left" title={page.url}>
+                {page.title || page.url}
+              </button>
+              <span className="text-[10px] text-slate-600 shrink-0 ml-auto">{new Date(page.timestamp).toLocaleTimeString()}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="p-3 text-[10px] text-slate-600 font-mono">No new articles yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default WatchPanel;
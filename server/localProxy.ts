@@ -0,0 +1,133 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import type { BlockList } from 'net';
+
+export const LOCAL_PROXY_PATH = '/__proxy';
+const TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 10;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; AutoCrawler/1.0)';
+
+// Loopback, private, link-local (cloud metadata) and other non-public ranges
+const PRIVATE_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'], ['10.0.0.0', 8, 'ipv4'], ['100.64.0.0', 10, 'ipv4'], ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'], ['172.16.0.0', 12, 'ipv4'], ['192.168.0.0', 16, 'ipv4'], ['224.0.0.0', 3, 'ipv4'],
+  ['::', 128, 'ipv6'], ['::1', 128, 'ipv6'], ['fc00::', 7, 'ipv6'], ['fe80::', 10, 'ipv6'], ['ff00::', 8, 'ipv6']
+];
+
+let privateAddresses: BlockList | null = null;
+
+// Null when every address the host resolves to is public. Node built-ins are loaded
+// here rather than at the top: the browser bundle imports LOCAL_PROXY_PATH from this file.
+const checkTarget = async (target: string): Promise<string | null> => {
+  const { lookup } = await import('dns/promises');
+  const { BlockList, isIP } = await import('net');
+  if (!privateAddresses) {
+    privateAddresses = new BlockList();
+    PRIVATE_RANGES.forEach(([network, prefix, type]) => privateAddresses!.addSubnet(network, prefix, type));
+  }
+  const blocked = privateAddresses;
+  // BlockList also matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges
+  const isPrivate = (address: string) => blocked.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+  const { hostname, protocol } = new URL(target);
+  if (protocol !== 'http:' && protocol !== 'https:') return `Unsupported protocol: ${protocol}`;
+  const host = hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  } catch (e) {
+    return `Could not resolve ${host}`;
+  }
+  return addresses.some(isPrivate) ? `Refusing to fetch private address ${host}` : null;
+};
+
+// Only the browser on this machine may use the proxy, and only from the app's own pages
+const isLocalClient = (req: IncomingMessage): boolean => {
+  const remote = req.socket.remoteAddress || '';
+  if (!(remote === '::1' || remote.startsWith('127.') || remote.startsWith('::ffff:127.'))) return false;
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Fetches ?url=... server-side and passes the body through unchanged. The real
+// target status, final URL and Retry-After travel in X-Proxy-* headers so the
+// browser can tell a proxy failure from a target failure. Redirects are followed
+// by hand so every hop is checked against private addresses.
+export const handleProxyRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  if (!isLocalClient(req)) {
+    res.statusCode = 403;
+    res.end('The local proxy only serves requests from this machine');
+    return;
+  }
+
+  const target = new URL(req.url || '/', 'http://localhost').searchParams.get('url');
+
+  if (!target || !/^https?:\/\//i.test(target)) {
+    res.statusCode = 400;
+    res.end('Missing or invalid ?url= parameter');
+    return;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+  try {
+    let url = target;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      const refusal = await checkTarget(url);
+      if (refusal) {
+        res.statusCode = 403;
+        res.end(refusal);
+        return;
+      }
+      response = await fetch(url, {
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+        }
+      });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects');
+      url = new URL(location, url).href;
+    }
+    const body = Buffer.from(await response.arrayBuffer());
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', response.headers.get('content-type') || 'application/octet-stream');
+    res.setHeader('X-Proxy-Status', String(response.status));
+    res.setHeader('X-Proxy-Final-Url', url);
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter) res.setHeader('X-Proxy-Retry-After', retryAfter);
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(body);
+  } catch (error: any) {
+    res.statusCode = 502;
+    res.end(error.name === 'AbortError' ? 'Upstream request timed out' : `Upstream request failed: ${error.message}`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+export const localProxyPlugin = (): Plugin => ({
+  name: 'autocrawler-local-proxy',
+  configureServer(server) {
+    server.middlewares.use(LOCAL_PROXY_PATH, (req, res) => {
+      handleProxyRequest(req, res);
+    });
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(LOCAL_PROXY_PATH, (req, res) => {
+      handleProxyRequest(req, res);
+    });
+  }
+});
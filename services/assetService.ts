@@ -0,0 +1,137 @@
+import { CrawledPage, PageAsset } from '../types';
+import { ZipEntry } from './zipWriter';
+
+const DOCUMENT_EXTENSIONS = ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'ods', 'rtf', 'csv', 'zip'];
+
+const clean = (text: string | null | undefined): string | undefined => {
+  const value = (text || '').replace(/\s+/g, ' ').trim();
+  return value || undefined;
+};
+
+const resolve = (url: string | null | undefined, baseHref: string): string | undefined => {
+  if (!url || /^\s*(data|javascript|blob):/i.test(url)) return undefined;
+  try {
+    const absolute = new URL(url.trim(), baseHref);
+    return /^https?:$/.test(absolute.protocol) ? absolute.href : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const dimension = (value: string | null): number | undefined => {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : undefined;
+};
+
+// Lazy-loading themes keep the real URL in a data attribute or srcset
+const imageSource = (img: Element): string | null => {
+  const srcset = img.getAttribute('srcset') || img.getAttribute('data-srcset');
+  const fromSrcset = srcset?.split(',').map(candidate => candidate.trim().split(/\s+/)[0]).filter(Boolean).pop();
+  return img.getAttribute('data-src') || img.getAttribute('data-lazy-src') || img.getAttribute('data-original')
+    || img.getAttribute('src') || fromSrcset || null;
+};
+
+export const getDocumentExtension = (url: string): string | undefined => {
+  try {
+    const extension = new URL(url).pathname.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase();
+    return extension && DOCUMENT_EXTENSIONS.includes(extension) ? extension : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const extractAssets = (root: Element, baseHref: string, options: { ignoreImages?: boolean } = {}): PageAsset[] => {
+  const assets: PageAsset[] = [];
+  const seen = new Set<string>();
+
+  if (!options.ignoreImages) {
+    root.querySelectorAll('img').forEach(img => {
+      const url = resolve(imageSource(img), baseHref);
+      const width = dimension(img.getAttribute('width'));
+      const height = dimension(img.getAttribute('height'));
+      // Tracking pixels and spacers
+      if (!url || seen.has(url) || (width !== undefined && width <= 2) || (height !== undefined && height <= 2)) return;
+      seen.add(url);
+
+      const figure = img.closest('figure');
+      assets.push({
+        type: 'image',
+        url,
+        alt: clean(img.getAttribute('alt')),
+        caption: clean(figure?.querySelector('figcaption')?.textContent) || clean(img.getAttribute('title')),
+        width,
+        height
+      });
+    });
+  }
+
+  root.querySelectorAll('a[href]').forEach(link => {
+    const url = resolve(link.getAttribute('href'), baseHref);
+    const extension = url && getDocumentExtension(url);
+    if (!url || !extension || seen.has(url)) return;
+    seen.add(url);
+    assets.push({ type: 'document', url, text: clean(link.textContent), extension });
+  });
+
+  return assets;
+};
+
+const fileNameFor = (asset: PageAsset, contentType: string, used: Set<string>): string => {
+  let name = 'asset';
+  try {
+    name = decodeURIComponent(new URL(asset.url).pathname.split('/').pop() || '') || 'asset';
+  } catch (e) { /* keep default */ }
+  name = name.replace(/[\\/:*?"<>|]/g, '_');
+  if (!/\.[a-z0-9]{2,5}$/i.test(name)) {
+    const subtype = /^[a-z]+\/([a-z0-9]+)/i.exec(contentType)?.[1];
+    if (subtype) name += `.${subtype === 'jpeg' ? 'jpg' : subtype}`;
+  }
+
+  const dot = name.lastIndexOf('.');
+  const [base, ext] = dot > 0 ? [name.substring(0, dot), name.substring(dot)] : [name, ''];
+  let unique = name;
+  for (let n = 2; used.has(unique); n++) unique = `${base}_${n}${ext}`;
+  used.add(unique);
+  return unique;
+};
+
+export interface AssetDownloadProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+// Downloads every inventoried asset into assets/<page folder>/ ZIP entries.
+// Failures are skipped so one dead image does not sink the export.
+export const downloadPageAssets = async (
+  pages: CrawledPage[],
+  folderFor: (page: CrawledPage, index: number) => string,
+  fetchBinary: (url: string) => Promise<{ data: Uint8Array; contentType: string }>,
+  onProgress?: (progress: AssetDownloadProgress) => void
+): Promise<ZipEntry[]> => {
+  const jobs = pages.flatMap((page, index) => (page.assets || []).map(asset => ({ asset, folder: folderFor(page, index) })));
+  const entries: ZipEntry[] = [];
+  const usedByFolder = new Map<string, Set<string>>();
+  const manifest: { url: string; path: string }[] = [];
+  const progress: AssetDownloadProgress = { done: 0, total: jobs.length, failed: 0 };
+
+  for (const { asset, folder } of jobs) {
+    try {
+      const { data, contentType } = await fetchBinary(asset.url);
+      if (!usedByFolder.has(folder)) usedByFolder.set(folder, new Set());
+      const path = `assets/${folder}/${fileNameFor(asset, contentType, usedByFolder.get(folder)!)}`;
+      entries.push({ name: path, data });
+      manifest.push({ url: asset.url, path });
+    } catch (e) {
+      progress.failed++;
+    }
+    progress.done++;
+    onProgress?.({ ...progress });
+  }
+
+  // Maps each source URL to its file so exported pages can be relinked offline
+  if (manifest.length > 0) {
+    entries.push({ name: 'assets/manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  }
+  return entries;
+};
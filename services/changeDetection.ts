@@ -0,0 +1,118 @@
+import { ChangeStatus, CrawledPage } from '../types';
+import { hashContent } from './hashing';
+import { CrawlSession } from './sessionStore';
+
+// Compares a crawl against an earlier saved run of the same site, page by page
+
+export interface BaselineEntry {
+  url: string;
+  title: string;
+  content: string;
+  hash: string;
+}
+
+export interface Baseline {
+  sessionId: string;
+  name: string;
+  createdAt: number;
+  entries: Map<string, BaselineEntry>; // By requested URL
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Whitespace-only edits (re-indented templates, trailing spaces) don't count as changes
+export const hashPageContent = (title: string, text: string): Promise<string> =>
+  hashContent([title.trim(), text.replace(/\s+/g, ' ').trim()]);
+
+// Runs from before hashes were stored get theirs computed from the saved content
+export const buildBaseline = async (session: CrawlSession): Promise<Baseline> => {
+  const entries = new Map<string, BaselineEntry>();
+  for (const page of session.pages) {
+    if (page.status !== 'success') continue;
+    entries.set(page.url, {
+      url: page.url,
+      title: page.title,
+      content: page.content,
+      hash: page.contentHash || await hashPageContent(page.title, page.content)
+    });
+  }
+  return { sessionId: session.id, name: session.name, createdAt: session.createdAt, entries };
+};
+
+export const classifyPage = (baseline: Baseline, url: string, hash: string): ChangeStatus => {
+  const previous = baseline.entries.get(url);
+  if (!previous) return 'new';
+  return previous.hash === hash ? 'unchanged' : 'changed';
+};
+
+// Pages the compared run had that this run did not fetch successfully
+export const findGonePages = (baseline: Baseline, pages: CrawledPage[]): BaselineEntry[] => {
+  const fetched = new Set(pages.filter(page => page.status === 'success').map(page => page.url));
+  return [...baseline.entries.values()].filter(entry => !fetched.has(entry.url));
+};
+
+export const CHANGE_LABELS: Record<ChangeStatus, string> = {
+  new: 'New',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+  gone: 'Gone'
+};
+
+// Above this many line pairs the middle section is shown as a plain replacement
+const MAX_DIFF_CELLS = 4000000;
+
+// Line-level LCS diff; the common head and tail are trimmed first so typical edits stay cheap
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const oldMiddle = a.slice(head, a.length - tail);
+  const newMiddle = b.slice(head, b.length - tail);
+  const same = (lines: string[]): DiffLine[] => lines.map(text => ({ type: 'same', text }));
+
+  let middle: DiffLine[];
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    middle = [
+      ...oldMiddle.map((text): DiffLine => ({ type: 'removed', text })),
+      ...newMiddle.map((text): DiffLine => ({ type: 'added', text }))
+    ];
+  } else {
+    const n = oldMiddle.length;
+    const m = newMiddle.length;
+    // lengths[i * (m + 1) + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+    middle = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        middle.push({ type: 'same', text: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        middle.push({ type: 'removed', text: oldMiddle[i++] });
+      } else {
+        middle.push({ type: 'added', text: newMiddle[j++] });
+      }
+    }
+    while (i < n) middle.push({ type: 'removed', text: oldMiddle[i++] });
+    while (j < m) middle.push({ type: 'added', text: newMiddle[j++] });
+  }
+
+  return [...same(a.slice(0, head)), ...middle, ...same(a.slice(a.length - tail))];
+};
@@ -0,0 +1,785 @@
+import { AiError, CrawlConfig, CrawlStatus, CrawledPage, FailureReason, LogEntry, QueueEntry } from '../types';
+import { fetchUrlContent, FetchError, FetchResult, setFetchBackend, parseHtml, ParsedPage } from './crawlerService';
+import { findProfile } from './extractionProfiles';
+import { validateSchema } from './extractionSchema';
+import { detectMyanmarEncoding, convertParsedPage, ZAWGYI_THRESHOLD } from './zawgyiService';
+import { summarizeContent, extractStructuredData, translateContent } from './geminiService';
+import { configureLlm, resetLlmUsage, DEFAULT_LLM_SETTINGS, LlmSettings } from './llmClient';
+import { LLM_ERROR_LABELS, toAiError } from './llmProviders';
+import { validateListingConfig, ListingLinks, NEXT_SOURCE_LABELS } from './listingService';
+import { buildPageUrl, generatePaginatedUrls, isMissingPage, otherPlaceholders, validatePagination, PaginationOptions } from './paginationService';
+import { classifyPage, findGonePages, hashPageContent, Baseline, CHANGE_LABELS } from './changeDetection';
+import { fetchRobotsPolicy, isAllowedByRobots, RobotsPolicy } from './robotsService';
+import { collectSitemapUrls, discoverSitemapUrls } from './sitemapService';
+import { FAILURE_LABELS, isHostFailure, isTransientFailure, getRetryDelay } from './retryPolicy';
+import { createCrawlScheduler, CrawlScheduler, SchedulerStats, TaskResult } from './scheduler';
+import { isInScope, getDefaultPathPrefix, matchUrlRules, canonicalizeUrl } from './urlService';
+
+// The crawl itself, independent of any UI: seeding, scheduling, fetching, parsing,
+// AI post-processing and the per-mode follow-up (links, listing pages, watch probes).
+// The React app and the CLI both drive one of these and mirror its state via callbacks.
+
+export interface WatchStatus {
+  highestId: number;
+  nextCheckAt: number | null; // Null while probing or paused
+}
+
+// Everything a session needs to resume the crawl later
+export interface CrawlEngineState {
+  status: CrawlStatus;
+  config: CrawlConfig;
+  queue: QueueEntry[]; // In-flight entries come first, so a resumed run re-fetches them
+  visited: string[];
+  pages: CrawledPage[];
+}
+
+export interface CrawlEngineCallbacks {
+  onLog: (message: string, type: LogEntry['type']) => void;
+  onStatus?: (status: CrawlStatus) => void;
+  onPages?: (pages: CrawledPage[]) => void;
+  onQueue?: (queue: QueueEntry[]) => void;
+  onVisited?: (visited: Set<string>) => void;
+  onStats?: (stats: SchedulerStats) => void;
+  onWatch?: (watch: WatchStatus | null) => void;
+  // Time to save: after each fetch (immediate false, so callers can throttle), and
+  // right away once the run settles (seeded, paused, finished, waiting for a watch round)
+  onCheckpoint?: (immediate: boolean) => void;
+}
+
+export interface CrawlEngine {
+  start: (config: CrawlConfig, baseline?: Baseline | null) => Promise<boolean>; // False when seeding found nothing
+  resume: () => boolean;
+  stop: () => void;
+  retryFailed: () => void;
+  restore: (state: CrawlEngineState, baseline?: Baseline | null) => CrawlStatus;
+  snapshot: () => CrawlEngineState | null;
+  getConfig: () => CrawlConfig | null;
+  getStatus: () => CrawlStatus;
+}
+
+export const llmSettingsFor = (config: Partial<CrawlConfig>): Omit<LlmSettings, 'useCache'> => ({
+  provider: config.llmProvider || 'gemini',
+  model: config.llmModel || DEFAULT_LLM_SETTINGS.model,
+  requestsPerMinute: config.llmRequestsPerMinute ?? DEFAULT_LLM_SETTINGS.requestsPerMinute,
+  tokenBudget: config.llmTokenBudget ?? DEFAULT_LLM_SETTINGS.tokenBudget
+});
+
+export const paginationOptionsFor = (config: CrawlConfig): PaginationOptions => ({
+  start: config.startPage ?? 1,
+  end: config.endPage ?? config.startPage ?? 1,
+  step: config.pageStep,
+  values: config.placeholderValues,
+  combine: config.placeholderCombine
+});
+
+// Null when the config can be crawled; messages start with the settings section at fault
+export const validateCrawlConfig = (config: CrawlConfig): string | null => {
+  if (!config.startUrl) return "Please enter a valid URL";
+  const schemaError = config.aiTask === 'extract' ? validateSchema(config.extractionSchema) : null;
+  if (schemaError) return `Extraction schema: ${schemaError}`;
+  const paginationError = config.mode === 'pagination' ? validatePagination(config.startUrl, paginationOptionsFor(config)) : null;
+  if (paginationError) return `Pagination: ${paginationError}`;
+  const listingError = config.mode === 'listing' ? validateListingConfig(config.listing || { maxListingPages: 1 }) : null;
+  if (listingError) return `Listing: ${listingError}`;
+  return null;
+};
+
+// One URL per visit key. Links are fetched as found; the canonical form (no tracking
+// parameters or trailing slash) only decides what has been seen already.
+const dedupeByVisitKey = (urls: string[], trackingParams: string[] | undefined): Map<string, string> => {
+  const byKey = new Map<string, string>();
+  urls.forEach(url => {
+    const key = canonicalizeUrl(url, trackingParams);
+    if (!byKey.has(key)) byKey.set(key, url.split('#')[0]);
+  });
+  return byKey;
+};
+
+export const createCrawlEngine = (callbacks: CrawlEngineCallbacks): CrawlEngine => {
+  let status: CrawlStatus = CrawlStatus.IDLE;
+  let crawlConfig: CrawlConfig | null = null;
+  let queue: QueueEntry[] = [];
+  let visited = new Set<string>();
+  let pages: CrawledPage[] = [];
+  let baseline: Baseline | null = null;
+  let inFlight = new Map<string, QueueEntry>();
+  let robots = new Map<string, Promise<RobotsPolicy | null>>();
+  let crawlDelays = new Map<string, number>(); // Crawl-delay per host, re-applied to each new scheduler
+  let scheduler: CrawlScheduler | null = null;
+  let outOfScopeCount = 0;
+  let ruleFilteredCount = 0;
+  let robotsBlockedCount = 0;
+  let misses = new Map<string, number>(); // Consecutive missing IDs per pagination series
+  // baseId: highest ID when the current probe batch was queued
+  let watch: { probing: boolean; baseId: number; timer: ReturnType<typeof setTimeout> | null } = { probing: false, baseId: 0, timer: null };
+  let watchStatus: WatchStatus | null = null;
+  // Bumped by start and restore; fetches still in flight from an older run are dropped
+  let runId = 0;
+
+  const addLog = callbacks.onLog;
+
+  const setStatus = (next: CrawlStatus) => {
+    status = next;
+    callbacks.onStatus?.(next);
+  };
+
+  const setQueue = (next: QueueEntry[]) => {
+    queue = next;
+    callbacks.onQueue?.([...queue]);
+  };
+
+  const emitPages = () => callbacks.onPages?.([...pages]);
+
+  const emitVisited = () => callbacks.onVisited?.(new Set(visited));
+
+  const setWatchStatus = (next: WatchStatus | null) => {
+    watchStatus = next;
+    callbacks.onWatch?.(next);
+  };
+
+  const checkpoint = (immediate: boolean) => callbacks.onCheckpoint?.(immediate);
+
+  const resetRun = () => {
+    runId++;
+    scheduler?.stop();
+    stopWatchTimer();
+    setWatchStatus(null);
+    inFlight = new Map();
+    robots = new Map();
+    crawlDelays = new Map();
+    outOfScopeCount = 0;
+    ruleFilteredCount = 0;
+    robotsBlockedCount = 0;
+    misses = new Map();
+  };
+
+  const getHighestPageId = (): number => {
+    const ids = pages.filter(p => p.status === 'success' && p.pageId !== undefined).map(p => p.pageId!);
+    return ids.length > 0 ? Math.max(...ids) : Math.max(crawlConfig?.startPage ?? 0, crawlConfig?.endPage ?? 0);
+  };
+
+  const stopWatchTimer = () => {
+    if (watch.timer) clearTimeout(watch.timer);
+    watch = { probing: false, baseId: 0, timer: null };
+  };
+
+  // Seed URLs for each mode; an empty list means there is nothing to crawl
+  const seedQueue = async (config: CrawlConfig): Promise<QueueEntry[]> => {
+    const { startUrl } = config;
+
+    if (config.mode === 'pagination') {
+        addLog(`Generating URLs from ID ${config.startPage} to ${config.endPage}${(config.pageStep || 1) > 1 ? ` (step ${config.pageStep})` : ''}...`, 'info');
+        const paginated = generatePaginatedUrls(startUrl, paginationOptionsFor(config));
+        if (paginated.length === 0) {
+            addLog("Could not generate URLs. Check format.", 'error');
+            return [];
+        }
+        addLog(`Generated ${paginated.length} target URLs.`, 'info');
+        addLog(`First URL: ${paginated[0].url}`, 'info');
+        if (config.stopAfterMisses) {
+            addLog(`Stopping a series after ${config.stopAfterMisses} missing IDs in a row.`, 'info');
+        }
+        if (config.watch) {
+            addLog(`Watch mode: after the range, checking for new IDs every ${config.watch.intervalMinutes} min.`, 'info');
+        }
+        return paginated.map(({ url, pageId, series }) => ({ url, depth: 0, pageId, series }));
+    }
+
+    if (config.mode === 'listing') {
+        addLog(`Walking up to ${config.listing?.maxListingPages} listing pages from: ${startUrl}`, 'info');
+        return [{ url: startUrl, depth: 0, isListing: true, listingPage: 1 }];
+    }
+
+    if (config.mode === 'single') {
+        addLog(`Preparing to crawl single page: ${startUrl}`, 'info');
+        return [{ url: startUrl, depth: 0 }];
+    }
+
+    if (config.mode === 'sitemap') {
+        let urls: string[] = [];
+        try {
+            const sitemapUrls = await discoverSitemapUrls(startUrl);
+            const since = config.sitemapSince ? new Date(config.sitemapSince) : undefined;
+            const entries = await collectSitemapUrls(sitemapUrls, { maxUrls: config.maxPages, since, onLog: addLog });
+            urls = entries.map(entry => entry.url);
+        } catch (error: any) {
+            addLog(`Sitemap error: ${error.message}`, 'error');
+        }
+        if (status !== CrawlStatus.RUNNING) return [];
+        if (urls.length === 0) {
+            addLog("No URLs found in sitemap.", 'error');
+            return [];
+        }
+        addLog(`Seeded ${urls.length} URLs from sitemap.`, 'success');
+        return urls.map(url => ({ url, depth: 0 }));
+    }
+
+    // Link Follow Mode
+    addLog(`Starting Link Discovery from: ${startUrl}`, 'info');
+    addLog(`Max depth: ${config.depth}, scope: ${config.scope}${config.scope === 'path-prefix' ? ` (${config.pathPrefix || getDefaultPathPrefix(startUrl)})` : ''}`, 'info');
+    if (config.urlRules.length > 0) {
+        addLog(`Applying ${config.urlRules.length} URL include/exclude rules.`, 'info');
+    }
+    return [{ url: startUrl, depth: 0 }];
+  };
+
+  const runScheduler = () => {
+    const config = crawlConfig!;
+    // Failure records do not count towards the page limit
+    const successCount = () => pages.filter(p => p.status === 'success').length;
+    // Listing pages are not stored, so in listing mode the limit counts articles
+    const hasPageLimit = config.mode === 'link-follow' || config.mode === 'listing';
+    const limitReached = () => hasPageLimit && successCount() >= config.maxPages;
+
+    const next = createCrawlScheduler({
+        concurrency: config.concurrency,
+        perHostConcurrency: config.perHostConcurrency,
+        perHostDelayMs: config.perHostDelayMs
+    }, {
+        pickNext: (canStart) => {
+            if (status !== CrawlStatus.RUNNING) return undefined;
+            // Count in-flight requests so concurrency does not overshoot the page limit
+            if (hasPageLimit && successCount() + next.getStats().inFlight >= config.maxPages) {
+                return undefined;
+            }
+
+            const now = Date.now();
+            for (let i = 0; i < queue.length; i++) {
+                // Retries wait out their backoff
+                if (queue[i].notBefore && queue[i].notBefore! > now) continue;
+                const visitKey = canonicalizeUrl(queue[i].url, config.trackingParams);
+                if (visited.has(visitKey)) {
+                    queue.splice(i--, 1);
+                    continue;
+                }
+                if (canStart(queue[i].url)) {
+                    const [entry] = queue.splice(i, 1);
+                    visited.add(visitKey);
+                    inFlight.set(visitKey, entry);
+                    emitVisited();
+                    setQueue([...queue]);
+                    return entry;
+                }
+            }
+            return undefined;
+        },
+        hasPending: () => status === CrawlStatus.RUNNING && queue.length > 0 && !limitReached(),
+        runTask: async (entry) => {
+            const run = runId;
+            try {
+                return await crawlEntry(entry);
+            } finally {
+                if (run === runId) {
+                    inFlight.delete(canonicalizeUrl(entry.url, config.trackingParams));
+                    checkpoint(false);
+                }
+            }
+        },
+        onIdle: () => {
+            if (status !== CrawlStatus.RUNNING) return;
+            if (config.mode === 'pagination' && config.watch) {
+                continueWatch();
+                return;
+            }
+            finishCrawl(limitReached() ? `Reached limit of ${config.maxPages} pages.` : "Queue is empty.");
+        },
+        onStats: callbacks.onStats,
+        onBackoff: (host, delayMs) => addLog(`Backing off ${host} for ${Math.round(delayMs / 1000)}s.`, 'warning')
+    });
+
+    crawlDelays.forEach((delayMs, host) => next.setHostDelay(host, delayMs));
+    scheduler = next;
+    next.start();
+  };
+
+  // Probes the next batch of IDs above the highest one fetched. A batch without a
+  // single hit is maxMisses consecutive misses: the round ends until the next interval.
+  const continueWatch = () => {
+    const config = crawlConfig!;
+    const watchConfig = config.watch!;
+    const highestId = getHighestPageId();
+
+    if (watch.probing && highestId <= watch.baseId) {
+        const nextCheckAt = Date.now() + watchConfig.intervalMinutes * 60000;
+        addLog(`No new articles after ID ${highestId}. Next check at ${new Date(nextCheckAt).toLocaleTimeString()}.`, 'info');
+        setWatchStatus({ highestId, nextCheckAt });
+        watch = {
+            probing: false,
+            baseId: highestId,
+            timer: setTimeout(() => {
+                watch.timer = null;
+                if (status === CrawlStatus.RUNNING) continueWatch();
+            }, nextCheckAt - Date.now())
+        };
+        checkpoint(true);
+        return;
+    }
+
+    const probes: QueueEntry[] = Array.from({ length: watchConfig.maxMisses }, (_, i) => ({
+        url: buildPageUrl(config.startUrl, highestId + 1 + i),
+        depth: 0,
+        pageId: highestId + 1 + i,
+        watchProbe: true
+    }));
+    watch = { probing: true, baseId: highestId, timer: null };
+    setWatchStatus({ highestId, nextCheckAt: null });
+    addLog(`Checking IDs ${highestId + 1}-${highestId + watchConfig.maxMisses} for new articles...`, 'info');
+    setQueue([...queue, ...probes]);
+    scheduler?.start();
+  };
+
+  // Listing mode: an index page contributes its article links and the next index page, and is not stored itself
+  const queueListingLinks = (entry: QueueEntry, listing: ListingLinks): TaskResult => {
+    const config = crawlConfig!;
+    const pageNumber = entry.listingPage || 1;
+    listing.warnings.forEach(warning => addLog(`Listing page ${pageNumber}: ${warning}`, 'warning'));
+
+    const queued = new Set(queue.map(e => canonicalizeUrl(e.url, config.trackingParams)));
+    const articles = [...dedupeByVisitKey(listing.articleUrls, config.trackingParams)]
+        .filter(([key]) => !visited.has(key) && !queued.has(key))
+        .map(([, url]) => url);
+    const newEntries: QueueEntry[] = articles.map(url => ({ url, depth: 1, parentUrl: entry.url, listingPage: pageNumber }));
+    addLog(`Listing page ${pageNumber}: ${listing.articleUrls.length} article links, ${articles.length} new.`, 'success');
+
+    const maxListingPages = config.listing?.maxListingPages || 1;
+    if (!listing.nextUrl) {
+        addLog(`No next page found on listing page ${pageNumber}.`, 'info');
+    } else if (pageNumber >= maxListingPages) {
+        addLog(`Reached limit of ${maxListingPages} listing pages. Not following ${listing.nextUrl}`, 'info');
+    } else {
+        const nextUrl = listing.nextUrl;
+        const nextKey = canonicalizeUrl(nextUrl, config.trackingParams);
+        if (visited.has(nextKey) || queued.has(nextKey)) {
+            addLog(`Next page ${nextUrl} was already visited. Stopping at listing page ${pageNumber}.`, 'warning');
+        } else {
+            addLog(`Next listing page (via ${NEXT_SOURCE_LABELS[listing.nextSource!]}): ${nextUrl}`, 'info');
+            newEntries.push({ url: nextUrl, depth: 0, isListing: true, listingPage: pageNumber + 1 });
+        }
+    }
+
+    setQueue([...queue, ...newEntries]);
+    return { outcome: 'ok' };
+  };
+
+  const crawlEntry = async (currentEntry: QueueEntry): Promise<TaskResult> => {
+    const config = crawlConfig!;
+    const currentUrl = currentEntry.url;
+    const mode = config.mode;
+    const trackingParamList = config.trackingParams;
+    const visitKey = canonicalizeUrl(currentUrl, trackingParamList);
+    const run = runId;
+    const isStale = () => run !== runId;
+
+    // Robots.txt policy (link-follow, listing and sitemap runs only)
+    if (config.respectRobots && (mode === 'link-follow' || mode === 'listing' || mode === 'sitemap')) {
+        const policy = await getRobotsPolicy(currentUrl);
+        if (isStale()) return { outcome: 'skipped' };
+        if (policy && !isAllowedByRobots(currentUrl, policy)) {
+            robotsBlockedCount++;
+            addLog(`Blocked by robots.txt: ${currentUrl}`, 'warning');
+            return { outcome: 'skipped' };
+        }
+    }
+
+    addLog(`Crawling: ${currentUrl}${mode === 'link-follow' ? ` (depth ${currentEntry.depth})` : currentEntry.isListing ? ` (listing page ${currentEntry.listingPage})` : ''}`, 'info');
+
+    let fetched: FetchResult;
+    try {
+        fetched = await fetchUrlContent(currentUrl);
+    } catch (error: any) {
+        if (isStale()) return { outcome: 'skipped' };
+        const reason: FailureReason = error instanceof FetchError ? error.reason : 'all-proxies-failed';
+        return handleFailure(currentEntry, reason, error.message, { httpStatus: error.status }, error.retryAfterMs);
+    }
+
+    if (isStale()) return { outcome: 'skipped' };
+    const { html, status: httpStatus, finalUrl, contentType, backend } = fetched;
+    const fetchInfo: Partial<CrawledPage> = { httpStatus, finalUrl, contentType, fetchBackend: backend };
+
+    addLog(`Fetched ${html.length} bytes (HTTP ${httpStatus} via ${backend}). Parsing...`, 'success');
+    if (finalUrl !== currentUrl) {
+        addLog(`Redirected to ${finalUrl}`, 'info');
+    }
+    // Site-specific selectors, matched against the post-redirect URL
+    const profile = findProfile(finalUrl, config.extractionProfiles);
+    if (profile) {
+        fetchInfo.profileId = profile.id;
+        addLog(`Using extraction profile "${profile.name}".`, 'info');
+    }
+    // Relative links resolve against the post-redirect URL
+    let parsed: ParsedPage;
+    try {
+        parsed = parseHtml(html, finalUrl, profile, {
+            contentFormat: config.contentFormat,
+            linkStyle: config.linkStyle,
+            ignoreImages: config.ignoreImages,
+            collectAssets: config.collectAssets,
+            listing: currentEntry.isListing ? config.listing : undefined
+        });
+    } catch (error: any) {
+        return handleFailure(currentEntry, 'parse-error', error.message, fetchInfo);
+    }
+    parsed.warnings.forEach(warning => addLog(`Profile "${profile?.name}": ${warning}`, 'warning'));
+    if (currentEntry.isListing && parsed.listing) {
+        return queueListingLinks(currentEntry, parsed.listing);
+    }
+
+    // Zawgyi pages are rewritten as Unicode before anything else reads the text
+    const detection = detectMyanmarEncoding(`${parsed.title}\n${parsed.text}`);
+    const convertedFromZawgyi = !!config.convertZawgyi
+        && detection.encoding === 'zawgyi'
+        && detection.confidence >= ZAWGYI_THRESHOLD;
+    if (convertedFromZawgyi) {
+        addLog(`Zawgyi detected (${Math.round(detection.confidence * 100)}%). Converted to Unicode.`, 'info');
+    } else if (detection.encoding === 'zawgyi') {
+        addLog(`Possible Zawgyi text (${Math.round(detection.confidence * 100)}%), stored unchanged.`, 'warning');
+    }
+    const { text, title, fields, metadata, assets } = convertedFromZawgyi ? convertParsedPage(parsed) : parsed;
+    fetchInfo.encoding = detection.encoding;
+    fetchInfo.encodingConfidence = Math.round(detection.confidence * 100) / 100;
+    if (convertedFromZawgyi) fetchInfo.convertedFromZawgyi = true;
+    const links = dedupeByVisitKey(parsed.links, trackingParamList);
+    const canonicalUrl = parsed.canonicalUrl
+        ? canonicalizeUrl(parsed.canonicalUrl, trackingParamList)
+        : visitKey;
+
+    // Skip pages that declare a canonical URL we have already crawled
+    if (canonicalUrl !== visitKey) {
+        if (visited.has(canonicalUrl)) {
+            addLog(`Duplicate of ${canonicalUrl} (rel=canonical). Skipping.`, 'warning');
+            return { outcome: 'ok' };
+        }
+        visited.add(canonicalUrl);
+    }
+
+    // Check for soft 404s
+    if (title.toLowerCase().includes('page not found') || title.toLowerCase().includes('404')) {
+         return handleFailure(currentEntry, 'soft-404', 'Page appears to be a "not found" page.', { ...fetchInfo, title, content: text, canonicalUrl });
+    }
+    if (!text.trim()) {
+         return handleFailure(currentEntry, 'empty-content', 'No text content extracted.', { ...fetchInfo, title, canonicalUrl });
+    }
+
+    // Hashed before AI post-processing so summaries and translations never count as changes
+    fetchInfo.contentHash = await hashPageContent(title, text);
+    if (baseline) {
+        fetchInfo.change = classifyPage(baseline, currentUrl, fetchInfo.contentHash);
+        if (fetchInfo.change !== 'unchanged') {
+            addLog(`${CHANGE_LABELS[fetchInfo.change]} since the compared run.`, 'info');
+        }
+    }
+
+    let finalContent = text;
+    const aiMode = config.aiTask || 'off';
+    // Failed AI calls are kept on the page and logged; the page itself is still stored
+    const recordAiError = (task: AiError['task'], error: unknown) => {
+        const aiError = toAiError(task, error);
+        fetchInfo.aiErrors = [...(fetchInfo.aiErrors || []), aiError];
+        addLog(`AI ${task} failed (${LLM_ERROR_LABELS[aiError.kind]}): ${aiError.message}`, aiError.kind === 'budget-exceeded' ? 'error' : 'warning');
+    };
+
+    if (currentEntry.watchProbe) {
+        fetchInfo.foundByWatch = true;
+        addLog(`New article at ID ${currentEntry.pageId}: ${title || currentUrl}`, 'success');
+    }
+    if (aiMode === 'summary' || (currentEntry.watchProbe && config.watch?.summarizeNew)) {
+       addLog(`Summarizing: ${title.substring(0, 30)}...`, 'info');
+       try {
+         const summary = await summarizeContent(text);
+         fetchInfo.summary = summary;
+         finalContent = `[AI SUMMARY]: ${summary}\n\n================================\n[FULL CONTENT]:\n${text}`;
+       } catch (e) {
+         recordAiError('summary', e);
+       }
+    }
+    if (aiMode === 'extract') {
+       addLog(`Extracting fields: ${title.substring(0, 30)}...`, 'info');
+       try {
+         const { record, errors } = await extractStructuredData(text, config.extractionSchema);
+         fetchInfo.extracted = record;
+         if (errors.length > 0) {
+             fetchInfo.extractionErrors = errors;
+             addLog(`Extraction issues: ${errors.join('; ')}`, 'warning');
+         }
+       } catch (e) {
+         recordAiError('extract', e);
+       }
+    }
+
+    const translateTo = config.translateTo;
+    if (translateTo) {
+       addLog(`Translating to ${translateTo}: ${title.substring(0, 30)}...`, 'info');
+       try {
+         fetchInfo.translation = await translateContent(title, text, translateTo, config.contentFormat);
+       } catch (e) {
+         recordAiError('translate', e);
+       }
+    }
+
+    // Hashing and AI calls await too
+    if (isStale()) return { outcome: 'skipped' };
+    recordPaginationResult(currentEntry, false);
+    const newPage: CrawledPage = {
+        url: currentUrl,
+        canonicalUrl,
+        title,
+        content: finalContent,
+        contentFormat: config.contentFormat || 'text',
+        status: 'success',
+        timestamp: Date.now(),
+        linksFound: links.size,
+        depth: currentEntry.depth,
+        parentUrl: currentEntry.parentUrl,
+        pageId: currentEntry.pageId,
+        listingPage: currentEntry.listingPage,
+        attempts: (currentEntry.attempt || 0) + 1,
+        fields,
+        metadata,
+        assets,
+        ...fetchInfo
+    };
+
+    pages.push(newPage);
+    emitPages();
+
+    // If in Link Follow mode, queue in-scope links one level deeper (breadth-first)
+    if (mode === 'link-follow') {
+        if (currentEntry.depth >= config.depth) {
+            addLog(`Max depth ${config.depth} reached. Not following ${links.size} links.`, 'info');
+        } else {
+            const queued = new Set(queue.map(e => canonicalizeUrl(e.url, trackingParamList)));
+            const newEntries: QueueEntry[] = [];
+            let outOfScope = 0;
+            let ruleFiltered = 0;
+
+            links.forEach((link, key) => {
+                if (visited.has(key) || queued.has(key)) return;
+                if (!isInScope(link, config.startUrl, config.scope, config.pathPrefix)) {
+                    outOfScope++;
+                    return;
+                }
+                if (!matchUrlRules(link, config.urlRules).allowed) {
+                    ruleFiltered++;
+                    return;
+                }
+                queued.add(key);
+                newEntries.push({ url: link, depth: currentEntry.depth + 1, parentUrl: currentUrl });
+            });
+
+            outOfScopeCount += outOfScope;
+            ruleFilteredCount += ruleFiltered;
+            setQueue([...queue, ...newEntries]);
+            addLog(`Found ${links.size} links: ${newEntries.length} queued, ${outOfScope} out of scope, ${ruleFiltered} filtered by rules.`, 'info');
+        }
+    }
+
+    return { outcome: 'ok' };
+  };
+
+  // Pagination auto-stop: deleted or unpublished IDs tend to come in long runs, so after
+  // stopAfterMisses of them in a row the rest of that series is dropped from the queue
+  const recordPaginationResult = (entry: QueueEntry, missing: boolean) => {
+    const config = crawlConfig;
+    if (!config?.stopAfterMisses || entry.pageId === undefined || entry.watchProbe) return;
+    const series = entry.series || '';
+    const count = missing ? (misses.get(series) || 0) + 1 : 0;
+    misses.set(series, count);
+    if (count !== config.stopAfterMisses) return;
+
+    const remaining = queue.filter(e => e.pageId === undefined || (e.series || '') !== series);
+    const dropped = queue.length - remaining.length;
+    if (dropped === 0) return;
+    setQueue(remaining);
+    addLog(`${count} missing IDs in a row${series ? ` (${series})` : ''}. Skipped the remaining ${dropped} URLs.`, 'warning');
+  };
+
+  // Re-queues transient failures with backoff; otherwise stores a failed CrawledPage
+  const handleFailure = (
+    entry: QueueEntry,
+    reason: FailureReason,
+    message: string,
+    details: Partial<CrawledPage> = {},
+    retryAfterMs?: number
+  ): TaskResult => {
+    const config = crawlConfig!;
+    const attempt = entry.attempt || 0;
+
+    // Unpublished IDs are expected while watching; they are probed again next round
+    if (entry.watchProbe) {
+        visited.delete(canonicalizeUrl(entry.url, config.trackingParams));
+        addLog(`No article at ID ${entry.pageId} (${FAILURE_LABELS[reason]}).`, 'info');
+    } else if (isTransientFailure(reason, details.httpStatus) && attempt < config.maxRetries) {
+        const delayMs = getRetryDelay(attempt, config.retryBaseDelayMs, retryAfterMs);
+        addLog(`${FAILURE_LABELS[reason]}: ${message} Retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt + 2}/${config.maxRetries + 1}).`, 'warning');
+        visited.delete(canonicalizeUrl(entry.url, config.trackingParams));
+        setQueue([...queue, { ...entry, attempt: attempt + 1, notBefore: Date.now() + delayMs }]);
+    } else {
+        addLog(`Failed (${FAILURE_LABELS[reason]}): ${entry.url} - ${message}`, 'error');
+        recordPaginationResult(entry, isMissingPage(reason, details.httpStatus));
+        pages.push({
+            url: entry.url,
+            title: '',
+            content: '',
+            linksFound: 0,
+            ...details,
+            status: 'failed',
+            timestamp: Date.now(),
+            depth: entry.depth,
+            parentUrl: entry.parentUrl,
+            pageId: entry.pageId,
+            isListing: entry.isListing,
+            listingPage: entry.listingPage,
+            error: message,
+            failureReason: reason,
+            attempts: attempt + 1
+        });
+        emitPages();
+    }
+
+    // Only transport-level problems should slow the host down
+    if (reason === 'rate-limited') return { outcome: 'rate-limited', retryAfterMs };
+    if (isHostFailure(reason, details.httpStatus)) return { outcome: 'error' };
+    return { outcome: 'ok' };
+  };
+
+  const getRobotsPolicy = async (url: string): Promise<RobotsPolicy | null> => {
+      const { origin, host } = new URL(url);
+      // Cache the promise so concurrent requests to one origin share a single fetch
+      if (!robots.has(origin)) {
+          robots.set(origin, fetchRobotsPolicy(origin).then(policy => {
+              if (policy) {
+                  addLog(`Loaded robots.txt for ${origin} (${policy.rules.length} rules${policy.crawlDelay ? `, Crawl-delay ${policy.crawlDelay}s` : ''}).`, 'info');
+                  if (policy.crawlDelay) {
+                      crawlDelays.set(host, policy.crawlDelay * 1000);
+                      scheduler?.setHostDelay(host, policy.crawlDelay * 1000);
+                  }
+              } else {
+                  addLog(`No robots.txt for ${origin}. No restrictions applied.`, 'info');
+              }
+              return policy;
+          }));
+      }
+      return robots.get(origin)!;
+  };
+
+  const finishCrawl = (reason: string) => {
+      setStatus(CrawlStatus.COMPLETED);
+      if (outOfScopeCount > 0) {
+          addLog(`Skipped ${outOfScopeCount} out-of-scope links in total.`, 'warning');
+      }
+      if (robotsBlockedCount > 0) {
+          addLog(`Skipped ${robotsBlockedCount} URLs disallowed by robots.txt.`, 'warning');
+      }
+      if (ruleFilteredCount > 0) {
+          addLog(`Skipped ${ruleFilteredCount} links excluded by URL rules.`, 'warning');
+      }
+      if (baseline) {
+          const counted = (change: string) => pages.filter(p => p.change === change).length;
+          const gone = findGonePages(baseline, pages).length;
+          addLog(`Changes since "${baseline.name}": ${counted('new')} new, ${counted('changed')} changed, ${counted('unchanged')} unchanged, ${gone} gone.`, 'info');
+      }
+      addLog(`Crawl Finished: ${reason}`, 'success');
+      checkpoint(true);
+  };
+
+  return {
+    start: async (config, nextBaseline = null) => {
+      resetRun();
+      setStatus(CrawlStatus.RUNNING);
+      visited = new Set();
+      pages = [];
+      emitVisited();
+      emitPages();
+      setQueue([]);
+      baseline = nextBaseline;
+      setFetchBackend(config.fetchBackend);
+      configureLlm(llmSettingsFor(config));
+      resetLlmUsage();
+
+      // Watch probes fill in {{page}} alone, so other placeholders rule it out
+      if (config.watch && (config.mode !== 'pagination' || otherPlaceholders(config.startUrl).length > 0)) {
+          addLog("Watch mode needs a template with {{page}} as its only placeholder. Not watching.", 'warning');
+          config = { ...config, watch: undefined };
+      }
+      crawlConfig = config;
+      const run = runId;
+
+      const seeded = await seedQueue(config);
+      if (run !== runId) return false;
+      if (seeded.length === 0) {
+          if (status === CrawlStatus.RUNNING) setStatus(CrawlStatus.ERROR);
+          return false;
+      }
+      setQueue(seeded);
+      checkpoint(true);
+      runScheduler();
+      return true;
+    },
+    resume: () => {
+      if (!crawlConfig || (queue.length === 0 && !crawlConfig.watch)) return false;
+      setStatus(CrawlStatus.RUNNING);
+      addLog(queue.length > 0 ? `Resuming crawl with ${queue.length} queued URLs.` : 'Resuming watch.', 'info');
+      runScheduler();
+      return true;
+    },
+    stop: () => {
+      scheduler?.stop();
+      // Keep the probe state so a resumed watch finishes its batch
+      if (watch.timer) {
+          clearTimeout(watch.timer);
+          watch.timer = null;
+          if (watchStatus) setWatchStatus({ ...watchStatus, nextCheckAt: null });
+      }
+      setStatus(CrawlStatus.PAUSED);
+      addLog("Process paused by user.", 'warning');
+      checkpoint(true);
+    },
+    retryFailed: () => {
+      const config = crawlConfig;
+      const failed = pages.filter(p => p.status === 'failed');
+      if (!config || failed.length === 0) return;
+
+      failed.forEach(p => visited.delete(canonicalizeUrl(p.url, config.trackingParams)));
+      pages = pages.filter(p => p.status !== 'failed');
+      emitPages();
+      setQueue([
+          ...failed.map(p => ({ url: p.url, depth: p.depth || 0, parentUrl: p.parentUrl, pageId: p.pageId, isListing: p.isListing, listingPage: p.listingPage })),
+          ...queue
+      ]);
+      emitVisited();
+
+      setStatus(CrawlStatus.RUNNING);
+      addLog(`Retrying ${failed.length} failed URLs.`, 'info');
+      runScheduler();
+    },
+    restore: (state, nextBaseline = null) => {
+      resetRun();
+      crawlConfig = state.config;
+      baseline = nextBaseline;
+      visited = new Set(state.visited);
+      pages = [...state.pages];
+      setFetchBackend(state.config.fetchBackend);
+      configureLlm(llmSettingsFor(state.config));
+      emitVisited();
+      emitPages();
+      setQueue([...state.queue]);
+      if (state.config.watch) setWatchStatus({ highestId: getHighestPageId(), nextCheckAt: null });
+
+      // A session saved mid-crawl (e.g. before a reload) can be resumed
+      setStatus(state.queue.length > 0 && state.status !== CrawlStatus.COMPLETED ? CrawlStatus.PAUSED : state.status);
+      return status;
+    },
+    snapshot: () => {
+      if (!crawlConfig) return null;
+      return {
+        status,
+        config: crawlConfig,
+        queue: [...inFlight.values(), ...queue],
+        visited: [...visited].filter(key => !inFlight.has(key)),
+        pages
+      };
+    },
+    getConfig: () => crawlConfig,
+    getStatus: () => status
+  };
+};
@@ -1,82 +1,111 @@
-import { CrawledPage, LogEntry } from '../types';
-
-// Enhanced list of CORS proxies
-const PROXIES = [
-  {
-    // High success rate for text content
-    name: 'AllOrigins',
-    getUrl: (target: string) => `https://api.allorigins.win/get?url=${encodeURIComponent(target)}`,
-    extract: async (res: Response) => {
-      const data = await res.json();
-      return data.contents; 
-    }
-  },
-  {
-    // Very robust, often works when others fail
-    name: 'CodeTabs',
-    getUrl: (target: string) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(target)}`,
-    extract: async (res: Response) => res.text()
-  },
-  {
-    // Standard CORS proxy
-    name: 'CorsProxy',
-    getUrl: (target: string) => `https://corsproxy.io/?${encodeURIComponent(target)}`,
-    extract: async (res: Response) => res.text()
-  },
-  {
-    // Backup 1
-    name: 'ThingProxy',
-    getUrl: (target: string) => `https://thingproxy.freeboard.io/fetch/${target}`,
-    extract: async (res: Response) => res.text()
-  },
-  {
-    // Backup 2
-    name: 'HacApp',
-    getUrl: (target: string) => `https://api.hac.app/proxy?url=${encodeURIComponent(target)}`,
-    extract: async (res: Response) => res.text()
+import { ContentFormat, ExtractionProfile, FetchBackendId, LinkStyle, ListingConfig, LogEntry, PageAsset, PageMetadata } from '../types';
+import { BinaryResult, FetchOptions, FetchResult, getFetchBackend } from './fetchBackends';
+import { extractMetadata } from './metadataService';
+import { cleanHtml, htmlToMarkdown } from './markdownService';
+import { extractAssets } from './assetService';
+import { extractListingLinks, ListingLinks } from './listingService';
+import { parseDocument } from './domAdapter';
+
+export { FetchError } from './fetchBackends';
+export type { BinaryResult, FetchOptions, FetchResult } from './fetchBackends';
+
+let activeBackend: FetchBackendId = 'proxy-chain';
+
+export const setFetchBackend = (id: FetchBackendId) => {
+  activeBackend = id;
+};
+
+export const fetchUrlContent = async (url: string, options: FetchOptions = {}): Promise<FetchResult> => {
+  const backend = getFetchBackend(options.backend || activeBackend);
+  return backend.fetch(url, options.minLength ?? 50);
+};
+
+export const fetchBinaryContent = async (url: string, options: Pick<FetchOptions, 'backend'> = {}): Promise<BinaryResult> =>
+  getFetchBackend(options.backend || activeBackend).fetchBinary(url);
+
+export interface ParsedPage {
+  text: string;
+  title: string;
+  links: string[];
+  canonicalUrl?: string;
+  fields?: Record<string, string>;
+  metadata: PageMetadata;
+  assets?: PageAsset[]; // Only when requested
+  warnings: string[]; // Profile selectors that matched nothing
+  listing?: ListingLinks; // Only when parsed as a listing page
+}
+
+const selectAll = (root: ParentNode, selector: string): Element[] => {
+  try {
+    return Array.from(root.querySelectorAll(selector));
+  } catch (e) {
+    return [];
   }
-];
-
-export const fetchUrlContent = async (url: string): Promise<{ html: string; status: number }> => {
-  let lastError;
-
-  // Try each proxy until one works
-  for (const proxy of PROXIES) {
-    try {
-      // Add a random parameter to prevent caching
-      const targetUrlWithCacheBust = url.includes('?') ? `${url}&_t=${Date.now()}` : `${url}?_t=${Date.now()}`;
-      const proxyUrl = proxy.getUrl(targetUrlWithCacheBust);
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000); // Increased to 30s for slow sites
-
-      const response = await fetch(proxyUrl, { signal: controller.signal });
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        continue; 
-      }
+};
 
-      const html = await proxy.extract(response);
-      
-      // Basic validation
-      if (!html || html.length < 50) {
-          throw new Error("Empty or invalid response from proxy");
-      }
+// NodeFilter is not a global outside the browser
+const SHOW_TEXT = 4;
+
+const cleanText = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+
+export interface ParseOptions {
+  contentFormat?: ContentFormat; // Defaults to plain text
+  linkStyle?: LinkStyle; // Markdown only
+  ignoreImages?: boolean;
+  collectAssets?: boolean;
+  listing?: ListingConfig; // Parse as a listing page: next-page and article links
+}
+
+export const parseHtml = (html: string, url: string, profile?: ExtractionProfile, options: ParseOptions = {}): ParsedPage => {
+  const doc = parseDocument(html);
+
+  // 0. Resolve the link base: <base href> if present, otherwise the full page URL
+  let baseHref = url;
+  const baseAttr = doc.querySelector('base[href]')?.getAttribute('href');
+  if (baseAttr) {
+      try {
+          baseHref = new URL(baseAttr, url).href;
+      } catch (e) { /* keep page URL */ }
+  }
 
-      return { html, status: 200 };
-    } catch (error: any) {
-      console.warn(`Proxy ${proxy.name} failed for ${url}:`, error.message);
-      lastError = error;
-    }
+  let canonicalUrl: string | undefined;
+  const canonicalAttr = doc.querySelector('link[rel~="canonical"][href]')?.getAttribute('href');
+  if (canonicalAttr) {
+      try {
+          canonicalUrl = new URL(canonicalAttr, baseHref).href;
+      } catch (e) { /* ignore */ }
   }
 
-  throw new Error(`Unable to crawl URL. The site might be blocking access or is unreachable.`);
-};
+  const warnings: string[] = [];
+
+  // Metadata first: JSON-LD lives in <script> tags that junk removal drops
+  const metadata = extractMetadata(doc, baseHref);
+  // Pagers often sit in <nav> or <footer>, which junk removal drops
+  const listing = options.listing ? extractListingLinks(doc, baseHref, url, options.listing) : undefined;
+
+  // Profile fields and title are read before junk removal, since they often live in headers
+  let fields: Record<string, string> | undefined;
+  if (profile && profile.fields.length > 0) {
+      fields = {};
+      profile.fields.forEach(field => {
+          if (!field.name || !field.selector) return;
+          const matches = selectAll(doc, field.selector);
+          if (matches.length === 0) {
+              warnings.push(`Field "${field.name}" matched nothing (${field.selector})`);
+              return;
+          }
+          const values = (field.multiple ? matches : matches.slice(0, 1))
+              .map(el => field.attribute ? (el.getAttribute(field.attribute) || '').trim() : cleanText(el.textContent))
+              .filter(Boolean);
+          fields![field.name] = values.join('\n');
+      });
+  }
 
-export const parseHtml = (html: string, url: string): { text: string; title: string; links: string[] } => {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(html, 'text/html');
+  let profileTitle = '';
+  if (profile?.titleSelector) {
+      profileTitle = cleanText(selectAll(doc, profile.titleSelector)[0]?.textContent);
+      if (!profileTitle) warnings.push(`Title selector matched nothing (${profile.titleSelector})`);
+  }
 
   // 1. Remove Junk (Conservative removal to avoid losing content)
   const trashSelectors = [
@@ -92,9 +121,12 @@ export const parseHtml = (html: string, url: string): { text: string; title: str
   trashSelectors.forEach(sel => {
      doc.querySelectorAll(sel).forEach(el => el.remove());
   });
+  profile?.removeSelectors.forEach(sel => {
+     selectAll(doc, sel).forEach(el => el.remove());
+  });
 
   // 2. Extract Title
-  let title = doc.querySelector('title')?.innerText || '';
+  let title = profileTitle || doc.querySelector('title')?.innerText || '';
   if (!title) {
       const h1 = doc.querySelector('h1');
       if (h1) title = h1.innerText;
@@ -102,8 +134,14 @@ export const parseHtml = (html: string, url: string): { text: string; title: str
   title = title.replace(/\s+/g, ' ').trim();
 
   // 3. Extract Text (Robust Method)
-  // Attempt to find the main content container
-  let mainContainer = doc.querySelector('article') || 
+  // Attempt to find the main content container, preferring the profile's selector
+  let profileContainer: Element | undefined;
+  if (profile?.contentSelector) {
+      profileContainer = selectAll(doc, profile.contentSelector)[0];
+      if (!profileContainer) warnings.push(`Content selector matched nothing (${profile.contentSelector})`);
+  }
+  let mainContainer = profileContainer ||
+                      doc.querySelector('article') || 
                       doc.querySelector('[role="main"]') || 
                       doc.querySelector('#content') || 
                       doc.querySelector('.content') || 
@@ -118,7 +156,7 @@ export const parseHtml = (html: string, url: string): { text: string; title: str
       return ['div', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'article', 'section', 'tr'].includes(tagName);
   };
 
-  const walker = doc.createTreeWalker(mainContainer, NodeFilter.SHOW_TEXT, null);
+  const walker = doc.createTreeWalker(mainContainer, SHOW_TEXT, null);
   let currentNode;
   
   while (currentNode = walker.nextNode()) {
@@ -154,7 +192,7 @@ export const parseHtml = (html: string, url: string): { text: string; title: str
 
   // Fallback: if TreeWalker failed to get meaningful text, use innerText
   // This is often better for simple sites
-  if (contentText.length < 100) {
+  if (contentText.length < 100 && !profileContainer) {
       // Clone body to avoid mutating original doc further if we needed it (we don't here)
       // We already removed junk, so innerText should be relatively clean
       const bodyText = doc.body.innerText || "";
@@ -162,16 +200,32 @@ export const parseHtml = (html: string, url: string): { text: string; title: str
       contentText = lines.join('\n\n');
   }
 
+  // Markdown and clean HTML render the same container instead of the flattened text
+  if (options.contentFormat === 'markdown' || options.contentFormat === 'html') {
+      const render = (root: Element) => options.contentFormat === 'markdown'
+          ? htmlToMarkdown(root, { baseHref, linkStyle: options.linkStyle || 'inline', ignoreImages: options.ignoreImages })
+          : cleanHtml(root, baseHref, options.ignoreImages);
+      contentText = render(mainContainer);
+      if (contentText.length < 100 && !profileContainer && mainContainer !== doc.body) {
+          contentText = render(doc.body);
+      }
+  }
+
+  // Assets come from the same container as the content, so sidebars and logos stay out
+  const assets = options.collectAssets
+      ? extractAssets(mainContainer, baseHref, { ignoreImages: options.ignoreImages })
+      : undefined;
+
   // 4. Extract Links
   const linkElements = doc.querySelectorAll('a[href]');
   const links: string[] = [];
   try {
-      const baseUrlObj = new URL(url);
+      const baseUrlObj = new URL(baseHref);
       linkElements.forEach((element) => {
         const href = element.getAttribute('href');
         if (href) {
             try {
-                const absoluteUrl = new URL(href, baseUrlObj.origin).href;
+                const absoluteUrl = new URL(href, baseUrlObj).href;
                 if (absoluteUrl.startsWith('http')) {
                     links.push(absoluteUrl);
                 }
@@ -182,51 +236,5 @@ export const parseHtml = (html: string, url: string): { text: string; title: str
       // invalid url
   }
 
-  return { text: contentText, title, links };
-};
-
-export const generatePaginatedUrls = (baseUrl: string, start: number, end: number): string[] => {
-  const urls: string[] = [];
-  const hasPlaceholder = baseUrl.includes('{{page}}');
-  
-  for (let i = start; i <= end; i++) {
-    if (hasPlaceholder) {
-      urls.push(baseUrl.replace('{{page}}', i.toString()));
-    } else {
-      if (baseUrl.endsWith('=') || baseUrl.endsWith('/')) {
-        urls.push(`${baseUrl}${i}`);
-      } else {
-        urls.push(`${baseUrl}/${i}`);
-      }
-    }
-  }
-  return urls;
+  return { text: contentText, title, links, canonicalUrl, fields, metadata, assets, warnings, listing };
 };
-
-export const downloadAsTextFile = (data: CrawledPage[], filename: string = 'crawl_data.txt') => {
-  // Add Byte Order Mark (BOM) for UTF-8 to ensure Windows Notepad opens it correctly with Burmese fonts
-  const BOM = '\uFEFF'; 
-  
-  let content = `CRAWL REPORT - ${new Date().toLocaleString()}\n`;
-  content += `Total Pages: ${data.length}\n`;
-  content += `=================================================\n\n`;
-
-  data.forEach((page, index) => {
-    content += `FILE #${index + 1}: ${page.url}\n`;
-    content += `TITLE: ${page.title}\n`;
-    content += `STATUS: ${page.status}\n`;
-    content += `-------------------------------------------------\n`;
-    content += `${page.content}\n`;
-    content += `\n=================================================\n\n`;
-  });
-
-  const blob = new Blob([BOM + content], { type: 'text/plain;charset=utf-8' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
-};
\ No newline at end of file
@@ -0,0 +1,18 @@
+// All HTML and XML parsing goes through here. Browsers use the built-in DOMParser;
+// the CLI installs a parser backed by linkedom before crawling.
+
+export type DocumentParser = (markup: string, type: DOMParserSupportedType) => Document;
+
+let installedParser: DocumentParser | null = null;
+
+export const setDocumentParser = (parser: DocumentParser | null) => {
+  installedParser = parser;
+};
+
+export const parseDocument = (markup: string, type: DOMParserSupportedType = 'text/html'): Document => {
+  if (installedParser) return installedParser(markup, type);
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('No DOM implementation available. Call setDocumentParser() first.');
+  }
+  return new DOMParser().parseFromString(markup, type);
+};
@@ -0,0 +1,341 @@
+import { CrawlDigest, CrawledPage, PageAsset, PageMetadata } from '../types';
+import { createZip, ZipEntry } from './zipWriter';
+import { formatExtractedValue, getRecordColumns } from './extractionSchema';
+
+export type ExportFormat = 'txt' | 'jsonl' | 'csv' | 'markdown' | 'zip' | 'records-csv' | 'records-jsonl';
+
+export type TextVersion = 'original' | 'translated' | 'both';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  includeBom: boolean; // UTF-8 BOM so Windows apps pick the right encoding for Burmese text
+  filenameTemplate: string; // ZIP entry names, e.g. {index}_{slug}.md; the extension picks the file format
+  includeAssets: boolean; // ZIP only: also download inventoried images and documents
+  textVersion: TextVersion; // Which language version of translated pages to write
+}
+
+export interface ExportResult {
+  filename: string;
+  mimeType: string;
+  data: string | Uint8Array;
+}
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'txt', label: 'TXT report' },
+  { id: 'jsonl', label: 'JSONL' },
+  { id: 'csv', label: 'CSV' },
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'zip', label: 'ZIP (file per page)' },
+  { id: 'records-csv', label: 'Extracted records (CSV)' },
+  { id: 'records-jsonl', label: 'Extracted records (JSONL)' }
+];
+
+export const TEXT_VERSIONS: { id: TextVersion; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'translated', label: 'Translated' },
+  { id: 'both', label: 'Original + translation' }
+];
+
+export const DEFAULT_FILENAME_TEMPLATE = '{index}_{slug}.md';
+
+const BOM = '\uFEFF';
+
+// Default for the BOM option: on for files opened in Windows apps, off where JSON
+// parsers and Markdown front matter would choke on it. Any format can still opt in.
+export const defaultIncludeBom = (format: ExportFormat): boolean =>
+  format === 'txt' || format === 'csv' || format === 'records-csv';
+
+// Keeps letters, digits and combining marks (needed for Burmese), collapses the rest to dashes
+export const slugify = (text: string, maxLength: number = 60): string => {
+  const slug = text
+    .normalize('NFC')
+    .replace(/[^\p{L}\p{N}\p{M}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return slug.substring(0, maxLength).replace(/-+$/, '') || 'page';
+};
+
+const pageSlug = (page: CrawledPage): string => {
+  if (page.title) return slugify(page.title);
+  try {
+    const { pathname, hostname } = new URL(page.url);
+    return slugify(pathname.replace(/\/+$/, '') || hostname);
+  } catch (e) {
+    return slugify(page.url);
+  }
+};
+
+// Placeholders: {index} {index:03} {slug} {host} {date} {status}
+export const renderFilename = (template: string, page: CrawledPage, index: number): string => {
+  let host = 'unknown';
+  try {
+    host = new URL(page.url).hostname;
+  } catch (e) { /* keep default */ }
+
+  return template
+    .replace(/\{index(?::(\d+))?\}/g, (_, width) => String(index + 1).padStart(width ? parseInt(width, 10) : 0, '0'))
+    .replace(/\{slug\}/g, pageSlug(page))
+    .replace(/\{host\}/g, host)
+    .replace(/\{date\}/g, new Date(page.timestamp).toISOString().substring(0, 10))
+    .replace(/\{status\}/g, page.status)
+    .replace(/[\\:*?"<>|]/g, '_');
+};
+
+// Flattened metadata, list values joined with commas
+const metadataEntries = (metadata?: PageMetadata): [string, string][] =>
+  Object.entries(metadata || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : String(value)]);
+
+const assetLabel = (asset: PageAsset): string =>
+  [asset.alt || asset.text, asset.caption, asset.width && asset.height ? `${asset.width}x${asset.height}` : '']
+    .filter(Boolean)
+    .join(' - ');
+
+export const buildTextReport = (pages: CrawledPage[]): string => {
+  let content = `CRAWL REPORT - ${new Date().toLocaleString()}\n`;
+  content += `Total Pages: ${pages.length}\n`;
+  content += `=================================================\n\n`;
+
+  pages.forEach((page, index) => {
+    content += `FILE #${index + 1}: ${page.url}\n`;
+    content += `TITLE: ${page.title}\n`;
+    content += `STATUS: ${page.status}\n`;
+    if (page.status === 'failed') {
+      content += `ERROR: ${page.failureReason || 'unknown'} - ${page.error || ''}\n`;
+    }
+    metadataEntries(page.metadata).forEach(([key, value]) => {
+      content += `${key.toUpperCase()}: ${value}\n`;
+    });
+    Object.entries(page.fields || {}).forEach(([name, value]) => {
+      content += `${name.toUpperCase()}: ${value}\n`;
+    });
+    (page.assets || []).forEach(asset => {
+      content += `${asset.type.toUpperCase()}: ${asset.url}${assetLabel(asset) ? ` (${assetLabel(asset)})` : ''}\n`;
+    });
+    content += `-------------------------------------------------\n`;
+    content += `${page.content}\n`;
+    content += `\n=================================================\n\n`;
+  });
+  return content;
+};
+
+export const buildJsonl = (pages: CrawledPage[]): string =>
+  pages.map(page => JSON.stringify(page)).join('\n') + '\n';
+
+const CSV_COLUMNS: (keyof CrawledPage)[] = ['url', 'title', 'status', 'timestamp', 'linksFound', 'error', 'content'];
+const CSV_ASSET_COLUMN = 'assets';
+const CSV_METADATA_COLUMNS: (keyof PageMetadata)[] = ['publishedAt', 'authors', 'language', 'description', 'image', 'siteName'];
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CRLF line endings so Excel keeps multi-line cells intact
+export const buildCsv = (pages: CrawledPage[]): string => {
+  const rows = pages.map(page => [
+    ...CSV_COLUMNS.map(column => {
+      if (column === 'timestamp') return csvCell(new Date(page.timestamp).toISOString());
+      return csvCell(page[column]);
+    }),
+    ...CSV_METADATA_COLUMNS.map(column => {
+      const value = page.metadata?.[column];
+      return csvCell(Array.isArray(value) ? value.join(', ') : value);
+    }),
+    csvCell((page.assets || []).map(asset => asset.url).join('\n'))
+  ].join(','));
+  return [[...CSV_COLUMNS, ...CSV_METADATA_COLUMNS, CSV_ASSET_COLUMN].join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// One row per page with an AI-extracted record; url and title identify the source page
+export const buildRecordsCsv = (pages: CrawledPage[]): string => {
+  const withRecords = pages.filter(page => page.extracted);
+  const columns = getRecordColumns(withRecords.map(page => page.extracted!));
+  const rows = withRecords.map(page => [
+    csvCell(page.url),
+    csvCell(page.title),
+    ...columns.map(column => csvCell(formatExtractedValue(page.extracted![column])))
+  ].join(','));
+  return [['url', 'title', ...columns].map(csvCell).join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// Values keep their JSON types (lists stay arrays, numbers stay numbers)
+export const buildRecordsJsonl = (pages: CrawledPage[]): string =>
+  pages
+    .filter(page => page.extracted)
+    .map(page => JSON.stringify({ url: page.url, title: page.title, ...page.extracted, _errors: page.extractionErrors }))
+    .join('\n') + '\n';
+
+// JSON strings are valid YAML double-quoted scalars
+const yamlValue = (value: unknown): string =>
+  typeof value === 'number' || typeof value === 'boolean' ? String(value) : JSON.stringify(value);
+
+export const buildFrontMatter = (page: CrawledPage): string => {
+  const fields: Record<string, unknown> = {
+    url: page.url,
+    title: page.title,
+    status: page.status,
+    crawled_at: new Date(page.timestamp).toISOString(),
+    links_found: page.linksFound
+  };
+  if (page.canonicalUrl) fields.canonical_url = page.canonicalUrl;
+  if (page.error) fields.error = page.error;
+  if (page.encoding && page.encoding !== 'none') fields.encoding = page.encoding;
+  if (page.convertedFromZawgyi) fields.converted_from_zawgyi = true;
+  if (page.metadata && Object.keys(page.metadata).length > 0) fields.metadata = page.metadata;
+  if (page.fields && Object.keys(page.fields).length > 0) fields.fields = page.fields;
+  if (page.extracted) fields.extracted = page.extracted;
+  if (page.translation) fields.translated_to = page.translation.language;
+  if (page.listingPage !== undefined && page.parentUrl) {
+    fields.listing_url = page.parentUrl;
+    fields.listing_page = page.listingPage;
+  }
+
+  const lines = Object.entries(fields).map(([key, value]) => `${key}: ${yamlValue(value)}`);
+  return `---\n${lines.join('\n')}\n---\n`;
+};
+
+const buildAssetList = (assets: PageAsset[]): string =>
+  '\n## Assets\n\n' + assets.map(asset => {
+    const label = assetLabel(asset) || asset.url;
+    return `- ${asset.type === 'image' ? 'Image' : (asset.extension || 'document').toUpperCase()}: [${label.replace(/[[\]]/g, '\\$&')}](<${asset.url}>)`;
+  }).join('\n') + '\n';
+
+// Markdown content usually opens with the page's own <h1>; repeating it as a heading would show it twice
+const startsWithHeading = (content: string, heading: string): boolean => {
+  const firstLine = content.trimStart().split('\n', 1)[0];
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  return /^#\s/.test(firstLine) && normalize(firstLine.replace(/^#\s+/, '')) === normalize(heading);
+};
+
+export const buildMarkdownPage = (page: CrawledPage): string => {
+  const heading = page.title || page.url;
+  const body = startsWithHeading(page.content, heading) ? page.content : `# ${heading}\n\n${page.content}`;
+  return `${buildFrontMatter(page)}\n${body}\n`
+    + (page.assets && page.assets.length > 0 ? buildAssetList(page.assets) : '');
+};
+
+export const buildMarkdown = (pages: CrawledPage[]): string =>
+  pages.map(buildMarkdownPage).join('\n');
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const buildHtmlPage = (page: CrawledPage): string => {
+  const body = page.contentFormat === 'html'
+    ? page.content
+    : `<pre>${escapeHtml(page.content)}</pre>`;
+  const lang = page.metadata?.language ? ` lang="${escapeHtml(page.metadata.language)}"` : '';
+  return `<!DOCTYPE html>\n<html${lang}>\n<head>\n<meta charset="utf-8">\n<title>${escapeHtml(page.title)}</title>\n`
+    + `<link rel="canonical" href="${escapeHtml(page.canonicalUrl || page.url)}">\n</head>\n<body>\n<h1>${escapeHtml(page.title || page.url)}</h1>\n${body}\n</body>\n</html>\n`;
+};
+
+const buildZipEntryContent = (page: CrawledPage, filename: string): string => {
+  if (/\.json$/i.test(filename)) return JSON.stringify(page, null, 2);
+  if (/\.html?$/i.test(filename)) return buildHtmlPage(page);
+  if (/\.txt$/i.test(filename)) return `URL: ${page.url}\nTITLE: ${page.title}\n\n${page.content}\n`;
+  return buildMarkdownPage(page);
+};
+
+// Entry name of each page inside the archive, kept unique with _2, _3 suffixes
+const zipEntryNames = (pages: CrawledPage[], options: ExportOptions): string[] => {
+  const used = new Set<string>();
+  return pages.map((page, index) => {
+    let name = renderFilename(options.filenameTemplate || DEFAULT_FILENAME_TEMPLATE, page, index);
+    if (used.has(name)) {
+      const dot = name.lastIndexOf('.');
+      const [base, ext] = dot > 0 ? [name.substring(0, dot), name.substring(dot)] : [name, ''];
+      let n = 2;
+      while (used.has(`${base}_${n}${ext}`)) n++;
+      name = `${base}_${n}${ext}`;
+    }
+    used.add(name);
+    return name;
+  });
+};
+
+// Folder name used for a page's downloaded assets: its entry name without the extension.
+// Takes the pages as passed to buildExport, which names entries after the chosen text version.
+export const assetFolderFor = (pages: CrawledPage[], options: ExportOptions): (page: CrawledPage, index: number) => string => {
+  const names = zipEntryNames(pages.map(page => applyTextVersion(page, options.textVersion || 'original')), options);
+  return (_page, index) => names[index].replace(/\.[^./]+$/, '');
+};
+
+export const buildZip = (pages: CrawledPage[], options: ExportOptions, extraEntries: ZipEntry[] = []): Uint8Array => {
+  const encoder = new TextEncoder();
+  const names = zipEntryNames(pages, options);
+
+  const entries: ZipEntry[] = pages.map((page, index) => {
+    const name = names[index];
+    const text = buildZipEntryContent(page, name);
+    return { name, data: encoder.encode((options.includeBom ? BOM : '') + text) };
+  });
+
+  return createZip([...entries, ...extraEntries]);
+};
+
+// Rewrites title and content for the chosen version; untranslated pages pass through unchanged
+export const applyTextVersion = (page: CrawledPage, version: TextVersion): CrawledPage => {
+  const { translation, ...original } = page;
+  if (!translation || version === 'original') return original;
+  if (version === 'translated') {
+    return { ...original, title: translation.title || page.title, content: translation.content };
+  }
+  const separator = page.contentFormat === 'html'
+    ? `\n<hr>\n<h2>${escapeHtml(translation.title || translation.language)}</h2>\n`
+    : `\n\n---\n\n${translation.title || translation.language}\n\n`;
+  return {
+    ...page,
+    title: translation.title ? `${page.title} / ${translation.title}` : page.title,
+    content: `${page.content}${separator}${translation.content}`
+  };
+};
+
+export const buildExport = (allPages: CrawledPage[], options: ExportOptions, assetEntries: ZipEntry[] = []): ExportResult => {
+  const pages = allPages.map(page => applyTextVersion(page, options.textVersion || 'original'));
+  const stamp = new Date().toISOString().substring(0, 10);
+  const bom = options.includeBom ? BOM : '';
+
+  switch (options.format) {
+    case 'jsonl':
+      return { filename: `crawl_data_${stamp}.jsonl`, mimeType: 'application/x-ndjson;charset=utf-8', data: bom + buildJsonl(pages) };
+    case 'csv':
+      return { filename: `crawl_data_${stamp}.csv`, mimeType: 'text/csv;charset=utf-8', data: bom + buildCsv(pages) };
+    case 'markdown':
+      return { filename: `crawl_data_${stamp}.md`, mimeType: 'text/markdown;charset=utf-8', data: bom + buildMarkdown(pages) };
+    case 'records-csv':
+      return { filename: `crawl_records_${stamp}.csv`, mimeType: 'text/csv;charset=utf-8', data: bom + buildRecordsCsv(pages) };
+    case 'records-jsonl':
+      return { filename: `crawl_records_${stamp}.jsonl`, mimeType: 'application/x-ndjson;charset=utf-8', data: bom + buildRecordsJsonl(pages) };
+    case 'zip':
+      return { filename: `crawl_data_${stamp}.zip`, mimeType: 'application/zip', data: buildZip(pages, options, assetEntries) };
+    default:
+      return { filename: 'crawl_data.txt', mimeType: 'text/plain;charset=utf-8', data: bom + buildTextReport(pages) };
+  }
+};
+
+// Topic sections with a link list back to the source pages
+export const buildDigestMarkdown = (digest: CrawlDigest, pages: CrawledPage[]): string => {
+  const titles = new Map(pages.map(page => [page.url, page.title]));
+  const sections = digest.topics.map(topic => {
+    const links = topic.pageUrls
+      .map(url => `- [${(titles.get(url) || url).replace(/[[\]]/g, '\\$&')}](<${url}>)`)
+      .join('\n');
+    return `## ${topic.title}\n\n${topic.summary}\n\n${links}\n`;
+  });
+  return `# Crawl digest\n\n_${digest.pageCount} pages, ${new Date(digest.generatedAt).toLocaleString()}_\n\n${digest.overview}\n\n${sections.join('\n')}`;
+};
+
+export const downloadExport = (result: ExportResult) => {
+  const blob = new Blob([result.data as BlobPart], { type: result.mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = result.filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
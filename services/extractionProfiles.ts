@@ -0,0 +1,93 @@
+import { ExtractionProfile } from '../types';
+import { compileUrlRule } from './urlService';
+
+const STORAGE_KEY = 'autocrawler.profiles';
+
+export const createProfile = (patch: Partial<ExtractionProfile> = {}): ExtractionProfile => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: 'New profile',
+  enabled: true,
+  matchType: 'host',
+  match: '',
+  removeSelectors: [],
+  fields: [],
+  ...patch
+});
+
+export const loadProfiles = (): ExtractionProfile[] => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    console.warn('Could not read extraction profiles:', e);
+  }
+  return [];
+};
+
+export const saveProfiles = (profiles: ExtractionProfile[]) => {
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    }
+  } catch (e) {
+    console.warn('Could not save extraction profiles:', e);
+  }
+};
+
+export const profileMatches = (profile: ExtractionProfile, url: string): boolean => {
+  const pattern = profile.match.trim();
+  if (!pattern) return false;
+
+  if (profile.matchType === 'host') {
+    try {
+      const hostname = new URL(url).hostname.toLowerCase();
+      const host = pattern.toLowerCase().replace(/^www\./, '');
+      return hostname === host || hostname.endsWith(`.${host}`);
+    } catch (e) {
+      return false;
+    }
+  }
+
+  try {
+    return compileUrlRule({ id: profile.id, action: 'include', syntax: profile.matchType, pattern }).test(url);
+  } catch (e) {
+    return false;
+  }
+};
+
+// First enabled profile whose pattern matches, in list order
+export const findProfile = (url: string, profiles: ExtractionProfile[] = []): ExtractionProfile | undefined =>
+  profiles.find(profile => profile.enabled && profileMatches(profile, url));
+
+// Checks every selector with the browser's parser so typos surface in the editor, not mid-crawl
+export const validateProfile = (profile: ExtractionProfile): string | null => {
+  if (!profile.match.trim()) return 'Match pattern is empty';
+  if (profile.matchType !== 'host') {
+    try {
+      compileUrlRule({ id: profile.id, action: 'include', syntax: profile.matchType, pattern: profile.match });
+    } catch (e: any) {
+      return `Invalid pattern: ${e.message}`;
+    }
+  }
+
+  const selectors = [
+    profile.contentSelector,
+    profile.titleSelector,
+    ...profile.removeSelectors,
+    ...profile.fields.map(field => field.selector)
+  ].filter((selector): selector is string => !!selector && !!selector.trim());
+
+  if (typeof document === 'undefined') return null;
+  const fragment = document.createDocumentFragment();
+  for (const selector of selectors) {
+    try {
+      fragment.querySelector(selector);
+    } catch (e) {
+      return `Invalid selector: ${selector}`;
+    }
+  }
+  return null;
+};
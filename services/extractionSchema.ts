@@ -0,0 +1,125 @@
+import { ExtractedRecord, ExtractedValue, SchemaField, SchemaFieldType } from '../types';
+
+const STORAGE_KEY = 'autocrawler.schema';
+
+export const SCHEMA_FIELD_TYPES: { id: SchemaFieldType; label: string }[] = [
+  { id: 'string', label: 'Text' },
+  { id: 'number', label: 'Number' },
+  { id: 'boolean', label: 'Yes/No' },
+  { id: 'date', label: 'Date' },
+  { id: 'string[]', label: 'List of text' }
+];
+
+export const DEFAULT_SCHEMA: SchemaField[] = [
+  { id: 'headline', name: 'headline', type: 'string', description: 'Headline of the article', required: true },
+  { id: 'published', name: 'published', type: 'date', description: 'Publication date of the article', required: false },
+  { id: 'people', name: 'people', type: 'string[]', description: 'Names of people mentioned', required: false },
+  { id: 'locations', name: 'locations', type: 'string[]', description: 'Places mentioned (towns, regions, countries)', required: false }
+];
+
+export const createSchemaField = (): SchemaField => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: '',
+  type: 'string',
+  description: '',
+  required: false
+});
+
+export const loadSchema = (): SchemaField[] => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    console.warn('Could not read extraction schema:', e);
+  }
+  return DEFAULT_SCHEMA.map(field => ({ ...field }));
+};
+
+export const saveSchema = (schema: SchemaField[]) => {
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(schema));
+    }
+  } catch (e) {
+    console.warn('Could not save extraction schema:', e);
+  }
+};
+
+// Field names become JSON keys and CSV headers
+export const validateSchema = (schema: SchemaField[]): string | null => {
+  if (schema.length === 0) return 'Add at least one field';
+  const names = new Set<string>();
+  for (const field of schema) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(field.name)) return `Invalid field name "${field.name}" (letters, digits and _ only)`;
+    if (names.has(field.name)) return `Duplicate field name "${field.name}"`;
+    names.add(field.name);
+  }
+  return null;
+};
+
+const coerce = (value: unknown, type: SchemaFieldType): { value: ExtractedValue; error?: string } => {
+  if (value === null || value === undefined || value === '') return { value: null };
+
+  switch (type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, ''));
+      return isFinite(number) ? { value: number } : { value: null, error: `not a number: ${JSON.stringify(value)}` };
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return { value };
+      if (/^(true|yes)$/i.test(String(value))) return { value: true };
+      if (/^(false|no)$/i.test(String(value))) return { value: false };
+      return { value: null, error: `not a yes/no value: ${JSON.stringify(value)}` };
+    case 'date': {
+      const date = new Date(String(value));
+      return isNaN(date.getTime())
+        ? { value: String(value), error: `unparseable date: ${JSON.stringify(value)}` }
+        : { value: date.toISOString().substring(0, 10) };
+    }
+    case 'string[]': {
+      const list = Array.isArray(value) ? value : [value];
+      return { value: list.map(item => String(item).trim()).filter(Boolean) };
+    }
+    default:
+      return typeof value === 'object'
+        ? { value: JSON.stringify(value), error: 'expected text, got an object' }
+        : { value: String(value).trim() };
+  }
+};
+
+// Coerces a model response to the schema: unknown keys dropped, types fixed where possible
+export const validateRecord = (raw: unknown, schema: SchemaField[]): { record: ExtractedRecord; errors: string[] } => {
+  const record: ExtractedRecord = {};
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { record, errors: ['Response is not a JSON object'] };
+  }
+
+  schema.forEach(field => {
+    const { value, error } = coerce((raw as Record<string, unknown>)[field.name], field.type);
+    record[field.name] = value;
+    if (error) errors.push(`${field.name}: ${error}`);
+    const isEmpty = value === null || (Array.isArray(value) && value.length === 0);
+    if (field.required && isEmpty) errors.push(`${field.name}: required but missing`);
+  });
+
+  return { record, errors };
+};
+
+export const formatExtractedValue = (value: ExtractedValue | undefined): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join('; ');
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+};
+
+// Union of record keys in first-seen order, so schema edits between runs keep every column
+export const getRecordColumns = (records: ExtractedRecord[]): string[] => {
+  const columns = new Set<string>();
+  records.forEach(record => Object.keys(record).forEach(key => columns.add(key)));
+  return [...columns];
+};
@@ -0,0 +1,326 @@
+import { FailureReason, FetchBackendId, ProxyConfig } from '../types';
+import { LOCAL_PROXY_PATH } from '../server/localProxy';
+import { buildProxyUrl, getOrderedProxies, recordProxyFailure, recordProxySuccess } from './proxyRegistry';
+
+export class FetchError extends Error {
+  reason: FailureReason;
+  status?: number; // Last non-OK HTTP status seen, if any
+  retryAfterMs?: number;
+
+  constructor(message: string, reason: FailureReason, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'FetchError';
+    this.reason = reason;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface FetchOptions {
+  minLength?: number; // Responses shorter than this are treated as failures (default 50)
+  backend?: FetchBackendId; // Overrides the active backend for one request
+}
+
+export interface FetchResult {
+  html: string;
+  status: number; // Real HTTP status of the target where the backend knows it
+  finalUrl: string; // After redirects
+  contentType: string;
+  backend: string; // Backend (and proxy) that served the response
+}
+
+export interface BinaryResult {
+  data: Uint8Array;
+  contentType: string;
+  backend: string;
+}
+
+export interface FetchBackend {
+  id: FetchBackendId;
+  name: string;
+  description: string;
+  fetch: (url: string, minLength: number) => Promise<FetchResult>;
+  fetchBinary: (url: string) => Promise<BinaryResult>; // Images and documents, body untouched
+}
+
+const TIMEOUT_MS = 30000; // Increased to 30s for slow sites
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = parseInt(header, 10);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+const fetchWithTimeout = async (url: string): Promise<Response> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// Response.text() always assumes UTF-8; honor the declared charset instead
+const decodeBody = async (response: Response, contentType: string): Promise<string> => {
+  const buffer = await response.arrayBuffer();
+  const charset = /charset=([^;]+)/i.exec(contentType)?.[1]?.trim().replace(/["']/g, '');
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(buffer);
+  } catch (e) {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+};
+
+const throwForStatus = (status: number, retryAfterMs?: number): never => {
+  if (status === 429 || status === 503) {
+    throw new FetchError(`Rate limited (HTTP ${status}).`, 'rate-limited', status, retryAfterMs);
+  }
+  throw new FetchError(`HTTP ${status}`, 'http-error', status);
+};
+
+interface ProxyResponse {
+  html: string;
+  status?: number;
+  finalUrl?: string;
+  contentType?: string;
+}
+
+const extractProxyResponse = async (proxy: ProxyConfig, res: Response): Promise<ProxyResponse> => {
+  if (proxy.format === 'allorigins-json') {
+    const data = await res.json();
+    return {
+      html: data.contents,
+      status: data.status?.http_code,
+      finalUrl: data.status?.url,
+      contentType: data.status?.content_type
+    };
+  }
+  return { html: await res.text() };
+};
+
+const proxyChainBackend: FetchBackend = {
+  id: 'proxy-chain',
+  name: 'Public CORS proxies',
+  description: 'Tries third-party proxies, healthiest first. Slow and rate-limited; the target sees the proxy, the proxy sees your URLs.',
+  fetch: async (url, minLength) => {
+    const proxies = getOrderedProxies();
+    let failedStatus: number | undefined;
+    let targetStatus: number | undefined;
+    let retryAfterMs: number | undefined;
+    let timeouts = 0;
+    let emptyResponses = 0;
+
+    if (proxies.length === 0) {
+      throw new FetchError("No proxies enabled.", 'all-proxies-failed');
+    }
+
+    // Try each proxy until one works
+    for (const proxy of proxies) {
+      const startedAt = Date.now();
+      try {
+        // Add a random parameter to prevent caching
+        const targetUrlWithCacheBust = url.includes('?') ? `${url}&_t=${Date.now()}` : `${url}?_t=${Date.now()}`;
+        const response = await fetchWithTimeout(buildProxyUrl(proxy, targetUrlWithCacheBust));
+
+        if (!response.ok) {
+          if (response.status === 429 || response.status === 503) {
+            failedStatus = response.status;
+            retryAfterMs = parseRetryAfter(response.headers.get('retry-after')) ?? retryAfterMs;
+          }
+          throw new Error(`Proxy returned HTTP ${response.status}`);
+        }
+
+        const result = await extractProxyResponse(proxy, response);
+
+        // The proxy worked but the target did not; not the proxy's fault, and
+        // another proxy would only get the same answer
+        if (result.status && result.status >= 400) {
+          recordProxySuccess(proxy.id, Date.now() - startedAt);
+          targetStatus = result.status;
+          break;
+        }
+
+        // Basic validation
+        if (!result.html || result.html.length < minLength) {
+          emptyResponses++;
+          throw new Error("Empty or invalid response from proxy");
+        }
+
+        recordProxySuccess(proxy.id, Date.now() - startedAt);
+        return {
+          html: result.html,
+          status: result.status || 200,
+          finalUrl: result.finalUrl || url,
+          contentType: result.contentType || response.headers.get('content-type') || '',
+          backend: `proxy-chain:${proxy.name}`
+        };
+      } catch (error: any) {
+        if (isAbortError(error)) timeouts++;
+        recordProxyFailure(proxy.id, isAbortError(error) ? 'Timed out' : error.message);
+        console.warn(`Proxy ${proxy.name} failed for ${url}:`, error.message);
+      }
+    }
+
+    if (targetStatus) throwForStatus(targetStatus);
+    if (failedStatus) throwForStatus(failedStatus, retryAfterMs);
+    if (timeouts === proxies.length) {
+      throw new FetchError(`All proxies timed out after ${TIMEOUT_MS / 1000}s.`, 'timeout');
+    }
+    if (emptyResponses > 0) {
+      throw new FetchError("Empty or invalid response from proxies.", 'empty-content');
+    }
+    throw new FetchError(`Unable to crawl URL. The site might be blocking access or is unreachable.`, 'all-proxies-failed');
+  },
+  fetchBinary: async (url) => {
+    // JSON-wrapping proxies only carry text, so only raw-body proxies can serve files
+    const proxies = getOrderedProxies().filter(proxy => proxy.format === 'text');
+    if (proxies.length === 0) {
+      throw new FetchError("No raw-body proxies enabled.", 'all-proxies-failed');
+    }
+
+    let lastError = '';
+    for (const proxy of proxies) {
+      const startedAt = Date.now();
+      try {
+        const response = await fetchWithTimeout(buildProxyUrl(proxy, url));
+        if (!response.ok) throw new Error(`Proxy returned HTTP ${response.status}`);
+        const data = new Uint8Array(await response.arrayBuffer());
+        if (data.length === 0) throw new Error("Empty response from proxy");
+
+        recordProxySuccess(proxy.id, Date.now() - startedAt);
+        return { data, contentType: response.headers.get('content-type') || '', backend: `proxy-chain:${proxy.name}` };
+      } catch (error: any) {
+        lastError = isAbortError(error) ? 'Timed out' : error.message;
+        recordProxyFailure(proxy.id, lastError);
+      }
+    }
+    throw new FetchError(`Unable to download asset: ${lastError}`, 'all-proxies-failed');
+  }
+};
+
+// Served by the Vite dev/preview server (see server/localProxy.ts)
+const localProxyBackend: FetchBackend = {
+  id: 'local-proxy',
+  name: 'Local proxy',
+  description: 'Fetches through the bundled Node proxy running inside the dev server. Real status codes, nothing leaves your machine except the request itself.',
+  fetch: async (url, minLength) => {
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(`${LOCAL_PROXY_PATH}?url=${encodeURIComponent(url)}`);
+    } catch (error: any) {
+      throw isAbortError(error)
+        ? new FetchError(`Local proxy timed out after ${TIMEOUT_MS / 1000}s.`, 'timeout')
+        : new FetchError(`Local proxy unreachable: ${error.message}`, 'all-proxies-failed');
+    }
+
+    if (!response.ok) {
+      const message = await response.text();
+      throw new FetchError(`Local proxy error: ${message}`, /timed out/.test(message) ? 'timeout' : 'all-proxies-failed');
+    }
+
+    const status = parseInt(response.headers.get('x-proxy-status') || '200', 10);
+    if (status >= 400) {
+      throwForStatus(status, parseRetryAfter(response.headers.get('x-proxy-retry-after')));
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const html = await decodeBody(response, contentType);
+    if (!html || html.length < minLength) {
+      throw new FetchError("Empty or invalid response", 'empty-content');
+    }
+
+    return {
+      html,
+      status,
+      finalUrl: response.headers.get('x-proxy-final-url') || url,
+      contentType,
+      backend: 'local-proxy'
+    };
+  },
+  fetchBinary: async (url) => {
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(`${LOCAL_PROXY_PATH}?url=${encodeURIComponent(url)}`);
+    } catch (error: any) {
+      throw isAbortError(error)
+        ? new FetchError(`Local proxy timed out after ${TIMEOUT_MS / 1000}s.`, 'timeout')
+        : new FetchError(`Local proxy unreachable: ${error.message}`, 'all-proxies-failed');
+    }
+
+    if (!response.ok) {
+      throw new FetchError(`Local proxy error: ${await response.text()}`, 'all-proxies-failed');
+    }
+    const status = parseInt(response.headers.get('x-proxy-status') || '200', 10);
+    if (status >= 400) throwForStatus(status);
+
+    return {
+      data: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || '',
+      backend: 'local-proxy'
+    };
+  }
+};
+
+const directBackend: FetchBackend = {
+  id: 'direct',
+  name: 'Direct fetch',
+  description: 'Requests the site straight from the browser. Only works for sites that send CORS headers.',
+  fetch: async (url, minLength) => {
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url);
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw new FetchError(`Direct fetch timed out after ${TIMEOUT_MS / 1000}s.`, 'timeout');
+      }
+      // Browsers report CORS rejections as a generic network error
+      throw new FetchError(`Direct fetch failed (network or CORS): ${error.message}`, 'all-proxies-failed');
+    }
+
+    if (!response.ok) {
+      throwForStatus(response.status, parseRetryAfter(response.headers.get('retry-after')));
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const html = await decodeBody(response, contentType);
+    if (!html || html.length < minLength) {
+      throw new FetchError("Empty or invalid response", 'empty-content');
+    }
+
+    return {
+      html,
+      status: response.status,
+      finalUrl: response.url || url,
+      contentType,
+      backend: 'direct'
+    };
+  },
+  fetchBinary: async (url) => {
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url);
+    } catch (error: any) {
+      throw isAbortError(error)
+        ? new FetchError(`Direct fetch timed out after ${TIMEOUT_MS / 1000}s.`, 'timeout')
+        : new FetchError(`Direct fetch failed (network or CORS): ${error.message}`, 'all-proxies-failed');
+    }
+
+    if (!response.ok) throwForStatus(response.status);
+
+    return {
+      data: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || '',
+      backend: 'direct'
+    };
+  }
+};
+
+export const FETCH_BACKENDS: FetchBackend[] = [proxyChainBackend, localProxyBackend, directBackend];
+
+export const getFetchBackend = (id: FetchBackendId): FetchBackend =>
+  FETCH_BACKENDS.find(backend => backend.id === id) || proxyChainBackend;
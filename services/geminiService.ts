@@ -1,22 +1,217 @@
-import { GoogleGenAI } from "@google/genai";
+import { Schema, Type } from "@google/genai";
+import { ContentFormat, CrawlDigest, CrawledPage, DigestTopic, ExtractedRecord, PageTranslation, SchemaField, SchemaFieldType } from "../types";
+import { validateRecord } from "./extractionSchema";
+import { chunkText } from "./textChunker";
+import { generate, generateJson } from "./llmClient";
 
-export const summarizeContent = async (text: string): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing");
+// AI tasks on crawled text. Calls go through llmClient, which picks the provider and
+// model and handles rate limits, the token budget and caching; errors are LlmErrors.
+
+// Characters per model call; long pages are split at paragraph boundaries into chunks this size
+const CHUNK_CHARS = 10000;
+
+const MAX_MERGE_ROUNDS = 3;
+
+// Map step: each chunk of a long page is summarized on its own
+const summarizeChunks = async (chunks: string[]): Promise<string[]> => {
+  const summaries: string[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    summaries.push(await generate({
+      task: 'summary',
+      instructions: `This is part ${i + 1} of ${chunks.length} of a longer document. Summarize this part in 3-5 sentences, keeping names, numbers and dates. Answer in the language of the text.`,
+      input: chunks[i]
+    }));
   }
+  return summaries;
+};
 
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    // We use flash for speed and cost effectiveness on large text chunks
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Please provide a concise summary (max 3 sentences) of the following text, focusing on the main topics. Text: ${text.substring(0, 10000)}`, // Limit chars to avoid token limits
+export const summarizeContent = async (text: string): Promise<string> => {
+  let chunks = chunkText(text, CHUNK_CHARS);
+  if (chunks.length <= 1) {
+    return generate({
+      task: 'summary',
+      instructions: 'Please provide a concise summary (max 3 sentences) of the following text, focusing on the main topics.',
+      input: text
     });
+  }
+
+  // Reduce step: merge the partial summaries, re-chunking if they still don't fit in one call
+  for (let round = 0; chunks.length > 1 && round < MAX_MERGE_ROUNDS; round++) {
+    const partials = await summarizeChunks(chunks);
+    chunks = chunkText(partials.join('\n\n'), CHUNK_CHARS);
+  }
+  return generate({
+    task: 'summary',
+    instructions: 'The following are summaries of consecutive parts of one document. Merge them into a concise summary (max 3 sentences) of the whole document, focusing on the main topics. Answer in the language of the summaries.',
+    input: chunks.join('\n\n')
+  });
+};
+
+const toGeminiType = (type: SchemaFieldType): Schema => {
+  switch (type) {
+    case 'number':
+      return { type: Type.NUMBER };
+    case 'boolean':
+      return { type: Type.BOOLEAN };
+    case 'date':
+      return { type: Type.STRING, format: 'date' };
+    case 'string[]':
+      return { type: Type.ARRAY, items: { type: Type.STRING } };
+    default:
+      return { type: Type.STRING };
+  }
+};
+
+export const buildResponseSchema = (schema: SchemaField[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(schema.map(field => [field.name, {
+    ...toGeminiType(field.type),
+    description: field.description || undefined,
+    nullable: !field.required
+  }])),
+  required: schema.filter(field => field.required).map(field => field.name),
+  propertyOrdering: schema.map(field => field.name)
+});
+
+export const extractStructuredData = async (
+  text: string,
+  schema: SchemaField[]
+): Promise<{ record: ExtractedRecord; errors: string[] }> => {
+  const raw = await generateJson({
+    task: 'extract',
+    instructions: 'Extract the requested fields from the following web page text. Use null for anything the text does not state; do not guess. Keep names and quotes in the original language. Dates as YYYY-MM-DD.',
+    input: text.substring(0, 30000),
+    schema: buildResponseSchema(schema)
+  });
+  return validateRecord(raw, schema);
+};
+
+// Per-page excerpt fed to the digest when the page has no stored summary
+const DIGEST_EXCERPT_CHARS = 1500;
+const DIGEST_BATCH_CHARS = 30000;
+
+const DIGEST_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    overview: { type: Type.STRING, description: 'Two to four sentences on what the pages cover as a whole' },
+    topics: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          summary: { type: Type.STRING, description: 'Two to four sentences covering the pages in this topic' },
+          pages: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: 'Numbers of the pages in this topic' }
+        },
+        required: ['title', 'summary', 'pages'],
+        propertyOrdering: ['title', 'summary', 'pages']
+      }
+    }
+  },
+  required: ['overview', 'topics'],
+  propertyOrdering: ['overview', 'topics']
+};
+
+interface RawDigest {
+  overview: string;
+  topics: { title: string; summary: string; pages: number[] }[];
+}
+
+const asObject = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+// The model usually follows the schema, but the response is still checked field by field
+const generateDigest = async (instructions: string, input: string): Promise<RawDigest> => {
+  const raw = asObject(await generateJson({ task: 'digest', instructions, input, schema: DIGEST_SCHEMA }));
+  const topics = Array.isArray(raw.topics) ? raw.topics.map(asObject) : [];
+  return {
+    overview: String(raw.overview || ''),
+    topics: topics.map(topic => ({
+      title: String(topic.title || ''),
+      summary: String(topic.summary || ''),
+      pages: Array.isArray(topic.pages) ? topic.pages.map(Number).filter(Number.isInteger) : []
+    }))
+  };
+};
+
+const DIGEST_INSTRUCTIONS = 'Group the pages by topic. Every page should belong to at least one topic; refer to pages only by their numbers. Answer in the language most of the pages are written in.';
+
+// Cross-page overview: pages are numbered, grouped by topic in batches, and the batch topics merged
+export const buildCrawlDigest = async (
+  pages: CrawledPage[],
+  onProgress?: (done: number, total: number) => void
+): Promise<CrawlDigest> => {
+  const sources = pages.filter(page => page.status === 'success');
+  if (sources.length === 0) throw new Error("No successful pages to digest");
+
+  const entries = sources.map((page, i) =>
+    `[${i + 1}] ${page.title || page.url}\n${(page.summary || page.content.substring(0, DIGEST_EXCERPT_CHARS)).replace(/\s+/g, ' ')}`
+  );
+  const batches = chunkText(entries.join('\n\n'), DIGEST_BATCH_CHARS);
+
+  const partials: RawDigest[] = [];
+  for (let i = 0; i < batches.length; i++) {
+    onProgress?.(i, batches.length + (batches.length > 1 ? 1 : 0));
+    partials.push(await generateDigest(DIGEST_INSTRUCTIONS, batches[i]));
+  }
+
+  let digest = partials[0];
+  if (partials.length > 1) {
+    onProgress?.(batches.length, batches.length + 1);
+    const topicList = partials
+      .flatMap(partial => partial.topics)
+      .map(topic => `- ${topic.title} (pages ${(Array.isArray(topic.pages) ? topic.pages : []).join(', ')}): ${topic.summary}`)
+      .join('\n');
+    digest = await generateDigest(
+      `These topic groups were built from separate batches of the same crawl. Merge overlapping topics, keeping every page number. ${DIGEST_INSTRUCTIONS}`,
+      topicList
+    );
+  }
+
+  // Page numbers the model invented are dropped; the rest map back to URLs
+  const topics: DigestTopic[] = digest.topics
+    .map(topic => ({
+      title: String(topic.title || '').trim(),
+      summary: String(topic.summary || '').trim(),
+      pageUrls: [...new Set((Array.isArray(topic.pages) ? topic.pages : []).map(Number))]
+        .filter(n => Number.isInteger(n) && n >= 1 && n <= sources.length)
+        .sort((a, b) => a - b)
+        .map(n => sources[n - 1].url)
+    }))
+    .filter(topic => topic.title);
+
+  return { generatedAt: Date.now(), pageCount: sources.length, overview: digest.overview.trim(), topics };
+};
+
+export const TRANSLATION_LANGUAGES = ['English', 'Burmese', 'Thai', 'Chinese (Simplified)', 'Japanese', 'Korean', 'Hindi', 'French', 'Spanish', 'German'];
+
+const FORMAT_NOTES: Record<ContentFormat, string> = {
+  text: 'Keep the paragraph breaks.',
+  markdown: 'The text is Markdown: keep all Markdown syntax, link targets and image URLs unchanged.',
+  html: 'The text is HTML: translate only the human-readable text and keep every tag and attribute unchanged.'
+};
+
+// Chunks are translated in order and joined at the paragraph breaks they were cut at
+export const translateContent = async (
+  title: string,
+  text: string,
+  language: string,
+  format: ContentFormat = 'text'
+): Promise<PageTranslation> => {
+  const translate = (input: string, note: string) => generate({
+    task: 'translate',
+    instructions: `Translate the following text into ${language}. ${note} Reply with the translation only, without comments.`,
+    input
+  });
 
-    return response.text || "No summary available.";
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return "Error generating summary.";
+  const translatedTitle = title ? (await translate(title, 'It is a page title.')).trim() : '';
+  // Clean HTML has one block per line and no blank lines, so each line counts as a paragraph
+  const isHtml = format === 'html';
+  const paragraphBreak = isHtml ? '\n' : '\n\n';
+  const chunks: string[] = [];
+  for (const chunk of chunkText(isHtml ? text.replace(/\n+/g, '\n\n') : text, CHUNK_CHARS)) {
+    const input = isHtml ? chunk.replace(/\n\n/g, '\n') : chunk;
+    chunks.push((await translate(input, FORMAT_NOTES[format])).trim());
   }
-};
\ No newline at end of file
+  return { language, title: translatedTitle, content: chunks.join(paragraphBreak) };
+};
@@ -0,0 +1,129 @@
+import { ListingConfig, NextLinkSource } from '../types';
+
+// Listing pages (archives, category pages, `?page=2` indexes) link to articles and to
+// the next listing page. Read before junk removal, since pagers often sit in <nav>/<footer>.
+
+export interface ListingLinks {
+  nextUrl?: string;
+  nextSource?: NextLinkSource;
+  articleUrls: string[];
+  warnings: string[];
+}
+
+const PAGER_CONTAINERS = [
+  '.pagination', '.pager', '.page-numbers', '.nav-links', '.wp-pagenavi',
+  '[class*="pagination"]', '[class*="pager"]', 'nav[aria-label*="pag" i]', '[role="navigation"]'
+].join(', ');
+
+const NEXT_CLASS = /(^|[\s_-])(next|older)([\s_-]|$)/i;
+// English, arrows, and Burmese "next" / "next page"
+const NEXT_TEXT = /^(next|older|more)\b|^[›»→>]+$|^\u1014\u1031\u102c\u1000\u103a/i;
+const CURRENT_PAGE = '.active, .current, [aria-current="page"], .selected';
+
+const select = (root: ParentNode, selector: string): Element[] => {
+  try {
+    return Array.from(root.querySelectorAll(selector));
+  } catch (e) {
+    return [];
+  }
+};
+
+const resolve = (href: string | null | undefined, baseHref: string): string | undefined => {
+  if (!href || href.startsWith('#') || /^(javascript|mailto|tel):/i.test(href)) return undefined;
+  try {
+    const url = new URL(href, baseHref);
+    url.hash = '';
+    return url.protocol.startsWith('http') ? url.href : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// The element itself when it is a link, otherwise the links inside it
+const linksIn = (element: Element): Element[] =>
+  element.matches('a[href], link[href]') ? [element] : select(element, 'a[href]');
+
+const looksLikeNext = (link: Element): boolean => {
+  const label = `${link.getAttribute('aria-label') || ''} ${link.getAttribute('title') || ''}`.trim();
+  const text = (link.textContent || '').replace(/\s+/g, ' ').trim();
+  return NEXT_CLASS.test(link.getAttribute('class') || '')
+    || NEXT_CLASS.test(link.parentElement?.getAttribute('class') || '')
+    || NEXT_TEXT.test(label)
+    || NEXT_TEXT.test(text);
+};
+
+// Pager without a marked "next" link: the numbered link right after the current page
+const numberAfterCurrent = (pager: Element): Element | undefined => {
+  const current = select(pager, CURRENT_PAGE)[0];
+  const currentNumber = parseInt((current?.textContent || '').trim(), 10);
+  if (isNaN(currentNumber)) return undefined;
+  return select(pager, 'a[href]').find(link => (link.textContent || '').trim() === String(currentNumber + 1));
+};
+
+const findNextLink = (doc: Document, baseHref: string, pageUrl: string, selector?: string): Pick<ListingLinks, 'nextUrl' | 'nextSource'> & { warning?: string } => {
+  const accept = (link: Element | undefined): string | undefined => {
+    const url = resolve(link?.getAttribute('href'), baseHref);
+    return url && url !== pageUrl ? url : undefined;
+  };
+
+  if (selector) {
+    const url = select(doc, selector).flatMap(linksIn).map(accept).find(Boolean);
+    if (url) return { nextUrl: url, nextSource: 'selector' };
+  }
+
+  const relNext = select(doc, 'link[rel~="next"][href], a[rel~="next"][href]').map(accept).find(Boolean);
+  if (relNext) return { nextUrl: relNext, nextSource: 'rel-next' };
+
+  for (const pager of select(doc, PAGER_CONTAINERS)) {
+    const url = accept(select(pager, 'a[href]').find(looksLikeNext)) || accept(numberAfterCurrent(pager));
+    if (url) return { nextUrl: url, nextSource: 'pager' };
+  }
+  // Some themes mark the link but not its container
+  const marked = accept(select(doc, 'a.next[href], a[class*="next"][href]')[0]);
+  if (marked) return { nextUrl: marked, nextSource: 'pager' };
+
+  return { warning: selector ? `Next-page selector matched no link (${selector})` : undefined };
+};
+
+const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (e) {
+    return null;
+  }
+};
+
+// Null when the listing settings can be used
+export const validateListingConfig = (config: ListingConfig): string | null => {
+  if (!config.articleSelector?.trim() && !config.articlePattern?.trim()) {
+    return 'Set an article link selector or URL pattern.';
+  }
+  if (config.articlePattern && !compilePattern(config.articlePattern)) {
+    return `Invalid article URL pattern: ${config.articlePattern}`;
+  }
+  if (config.maxListingPages < 1) return 'Listing page limit must be 1 or more.';
+  return null;
+};
+
+export const extractListingLinks = (doc: Document, baseHref: string, pageUrl: string, config: ListingConfig): ListingLinks => {
+  const warnings: string[] = [];
+  const next = findNextLink(doc, baseHref, pageUrl, config.nextSelector?.trim() || undefined);
+  if (next.warning) warnings.push(next.warning);
+
+  const articleSelector = config.articleSelector?.trim();
+  const candidates = articleSelector ? select(doc, articleSelector).flatMap(linksIn) : select(doc, 'a[href]');
+  if (articleSelector && candidates.length === 0) warnings.push(`Article selector matched no links (${articleSelector})`);
+
+  const pattern = config.articlePattern?.trim() ? compilePattern(config.articlePattern.trim()) : null;
+  const articleUrls = [...new Set(candidates.map(link => resolve(link.getAttribute('href'), baseHref)))]
+    .filter((url): url is string => !!url && url !== pageUrl && url !== next.nextUrl)
+    .filter(url => !pattern || pattern.test(url));
+
+  return { nextUrl: next.nextUrl, nextSource: next.nextSource, articleUrls, warnings };
+};
+
+export const NEXT_SOURCE_LABELS: Record<NextLinkSource, string> = {
+  'selector': 'selector',
+  'rel-next': 'rel="next"',
+  'pager': 'pager links'
+};
@@ -0,0 +1,85 @@
+// Model responses keyed by a hash of everything that shapes them, so re-crawls of unchanged pages are free
+
+const DB_NAME = 'autocrawler-llm-cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+const MAX_MEMORY_ENTRIES = 500;
+
+interface CachedResponse {
+  key: string;
+  text: string;
+  createdAt: number;
+}
+
+const memory = new Map<string, string>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null where IndexedDB is unavailable; the cache then lives in memory only
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('LLM cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const remember = (key: string, text: string) => {
+  memory.delete(key);
+  memory.set(key, text);
+  if (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+};
+
+export const getCachedResponse = async (key: string): Promise<string | undefined> => {
+  const hit = memory.get(key);
+  if (hit !== undefined) return hit;
+
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise(resolve => {
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(key);
+    request.onsuccess = () => {
+      const entry = request.result as CachedResponse | undefined;
+      if (entry) remember(key, entry.text);
+      resolve(entry?.text);
+    };
+    request.onerror = () => resolve(undefined);
+  });
+};
+
+export const putCachedResponse = async (key: string, text: string): Promise<void> => {
+  remember(key, text);
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const entry: CachedResponse = { key, text, createdAt: Date.now() };
+    db.transaction(STORE, 'readwrite').objectStore(STORE).put(entry);
+  } catch (e) {
+    console.warn('Could not cache LLM response:', e);
+  }
+};
+
+export const clearLlmCache = async (): Promise<void> => {
+  memory.clear();
+  const db = await openDb();
+  if (!db) return;
+  await new Promise<void>(resolve => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => resolve();
+  });
+};
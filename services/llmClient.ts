@@ -0,0 +1,157 @@
+import { LlmProviderId } from '../types';
+import { buildPrompt, estimateTokens, getLlmProvider, LlmError, LlmRequest } from './llmProviders';
+import { getCachedResponse, putCachedResponse } from './llmCache';
+import { hashContent } from './hashing';
+import { getRetryDelay } from './retryPolicy';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  requestsPerMinute: number; // 0 means no limit
+  tokenBudget: number; // Estimated tokens across all calls until the next reset; 0 means unlimited
+  useCache: boolean;
+}
+
+export interface LlmStats {
+  requests: number; // Calls that reached the provider
+  cacheHits: number;
+  tokensUsed: number;
+  queued: number; // Calls waiting for a rate-limit slot
+}
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: 'gemini-3-flash-preview',
+  requestsPerMinute: 15,
+  tokenBudget: 1000000,
+  useCache: true
+};
+
+const RATE_WINDOW_MS = 60000;
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 5000;
+
+let settings: LlmSettings = { ...DEFAULT_LLM_SETTINGS };
+let stats: LlmStats = { requests: 0, cacheHits: 0, tokensUsed: 0, queued: 0 };
+const listeners = new Set<(stats: LlmStats) => void>();
+
+const starts: number[] = [];
+const waiting: (() => void)[] = [];
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const emitStats = () => {
+  stats = { ...stats, queued: waiting.length };
+  listeners.forEach(listener => listener(stats));
+};
+
+// Hands out start slots in FIFO order, at most requestsPerMinute per sliding minute
+const pump = () => {
+  const now = Date.now();
+  while (starts.length > 0 && starts[0] <= now - RATE_WINDOW_MS) starts.shift();
+  while (waiting.length > 0 && (settings.requestsPerMinute <= 0 || starts.length < settings.requestsPerMinute)) {
+    starts.push(now);
+    waiting.shift()!();
+  }
+  if (waiting.length > 0 && !wakeTimer) {
+    wakeTimer = setTimeout(() => {
+      wakeTimer = null;
+      pump();
+    }, Math.max(50, starts[0] + RATE_WINDOW_MS - now));
+  }
+  emitStats();
+};
+
+const acquireSlot = (): Promise<void> =>
+  new Promise(resolve => {
+    waiting.push(resolve);
+    pump();
+  });
+
+const isJson = (text: string): boolean => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Limits that are not a positive number (an emptied input gives NaN) mean unlimited
+const toLimit = (value: number): number => Number.isFinite(value) && value > 0 ? value : 0;
+
+export const configureLlm = (next: Partial<LlmSettings>) => {
+  settings = { ...settings, ...next };
+  settings.requestsPerMinute = toLimit(settings.requestsPerMinute);
+  settings.tokenBudget = toLimit(settings.tokenBudget);
+  const provider = getLlmProvider(settings.provider);
+  if (!provider.models.includes(settings.model)) settings.model = provider.models[0];
+  pump();
+};
+
+export const getLlmSettings = (): LlmSettings => settings;
+
+// Starts a new token budget, e.g. at the beginning of a crawl
+export const resetLlmUsage = () => {
+  stats = { requests: 0, cacheHits: 0, tokensUsed: 0, queued: waiting.length };
+  emitStats();
+};
+
+export const getLlmStats = (): LlmStats => stats;
+
+export const subscribeLlmStats = (listener: (stats: LlmStats) => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const generate = async (request: Omit<LlmRequest, 'model'>): Promise<string> => {
+  const provider = getLlmProvider(settings.provider);
+  const fullRequest: LlmRequest = { ...request, model: settings.model };
+  if (!provider.isConfigured()) {
+    throw new LlmError(`${provider.name} is not configured`, 'missing-key');
+  }
+
+  const key = settings.useCache
+    ? await hashContent([provider.id, fullRequest.model, request.task, request.instructions, request.input, JSON.stringify(request.schema || null)])
+    : '';
+  if (key) {
+    const cached = await getCachedResponse(key);
+    if (cached !== undefined) {
+      stats = { ...stats, cacheHits: stats.cacheHits + 1 };
+      emitStats();
+      return cached;
+    }
+  }
+
+  const estimate = estimateTokens(buildPrompt(fullRequest));
+  if (settings.tokenBudget > 0 && stats.tokensUsed + estimate > settings.tokenBudget) {
+    throw new LlmError(`Token budget of ${settings.tokenBudget} reached (${stats.tokensUsed} used)`, 'budget-exceeded');
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot();
+    try {
+      const response = await provider.generate(fullRequest);
+      stats = {
+        ...stats,
+        requests: stats.requests + 1,
+        tokensUsed: stats.tokensUsed + response.inputTokens + response.outputTokens
+      };
+      emitStats();
+      // Malformed JSON is never cached, so asking again can fix it
+      if (request.schema && !isJson(response.text)) {
+        throw new LlmError("Model returned invalid JSON", 'invalid-response');
+      }
+      if (key) await putCachedResponse(key, response.text);
+      return response.text;
+    } catch (error) {
+      if (!(error instanceof LlmError) || error.kind !== 'rate-limited' || attempt >= MAX_RETRIES) throw error;
+      await sleep(getRetryDelay(attempt, RETRY_BASE_DELAY_MS, error.retryAfterMs));
+    }
+  }
+};
+
+// Requests with a schema only resolve with text that parses
+export const generateJson = async (request: Omit<LlmRequest, 'model'> & Required<Pick<LlmRequest, 'schema'>>): Promise<unknown> =>
+  JSON.parse(await generate(request));
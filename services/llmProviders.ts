@@ -0,0 +1,197 @@
+import { ApiError, FinishReason, GoogleGenAI, Schema, Type } from "@google/genai";
+import { AiError, LlmErrorKind, LlmProviderId } from "../types";
+
+export class LlmError extends Error {
+  kind: LlmErrorKind;
+  retryAfterMs?: number;
+
+  constructor(message: string, kind: LlmErrorKind, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LlmError';
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const LLM_ERROR_LABELS: Record<LlmErrorKind, string> = {
+  'missing-key': 'API key missing',
+  'auth': 'API key rejected',
+  'rate-limited': 'Rate limited',
+  'budget-exceeded': 'Token budget exceeded',
+  'blocked': 'Blocked by safety filter',
+  'invalid-response': 'Invalid response',
+  'request-failed': 'Request failed'
+};
+
+export type LlmTask = 'summary' | 'extract' | 'translate' | 'digest';
+
+export interface LlmRequest {
+  task: LlmTask;
+  model: string;
+  instructions: string;
+  input: string; // The page text (or partial results) the instructions apply to
+  schema?: Schema; // Asks for JSON matching this schema
+}
+
+export interface LlmResponse {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  name: string;
+  description: string;
+  models: string[]; // First entry is the default
+  isConfigured: () => boolean;
+  generate: (request: LlmRequest) => Promise<LlmResponse>;
+}
+
+// Rough count for budgeting before a call; providers report real usage afterwards
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const buildPrompt = (request: LlmRequest): string =>
+  `${request.instructions}\n\nText: ${request.input}`;
+
+let geminiClient: GoogleGenAI | null = null;
+
+const getGeminiClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new LlmError("API Key is missing", 'missing-key');
+  }
+  if (!geminiClient) {
+    geminiClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return geminiClient;
+};
+
+const toLlmError = (error: any): LlmError => {
+  if (error instanceof LlmError) return error;
+  const status = error instanceof ApiError ? error.status : undefined;
+  const message = error?.message || String(error);
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) return new LlmError(message, 'rate-limited');
+  if (status === 401 || status === 403 || /API key not valid/i.test(message)) return new LlmError(message, 'auth');
+  return new LlmError(message, 'request-failed');
+};
+
+const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: 'Calls the Gemini API with the key from .env.local.',
+  models: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+  isConfigured: () => !!process.env.API_KEY,
+  generate: async (request) => {
+    const ai = getGeminiClient();
+    let response;
+    try {
+      response = await ai.models.generateContent({
+        model: request.model,
+        contents: buildPrompt(request),
+        config: request.schema ? { responseMimeType: 'application/json', responseSchema: request.schema } : undefined
+      });
+    } catch (error) {
+      throw toLlmError(error);
+    }
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new LlmError(`Prompt blocked: ${blockReason}`, 'blocked');
+    }
+    const text = response.text;
+    if (!text) {
+      const finishReason = response.candidates?.[0]?.finishReason;
+      throw finishReason === FinishReason.SAFETY
+        ? new LlmError('Response blocked by safety filter', 'blocked')
+        : new LlmError(`Empty response${finishReason ? ` (${finishReason})` : ''}`, 'invalid-response');
+    }
+    return {
+      text,
+      inputTokens: response.usageMetadata?.promptTokenCount ?? estimateTokens(buildPrompt(request)),
+      outputTokens: response.usageMetadata?.candidatesTokenCount ?? estimateTokens(text)
+    };
+  }
+};
+
+// Small seeded generator so the mock gives the same answer for the same request
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 0x100000000;
+};
+
+const seedOf = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+const sentencesOf = (text: string): string[] =>
+  text.split(/(?<=[.!?။])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+
+// Fills a response schema with values taken from the input, so JSON features work offline
+const mockValue = (schema: Schema, words: string[], maxRef: number, random: () => number): unknown => {
+  const pick = () => words.length > 0 ? words[Math.floor(random() * words.length)] : 'mock';
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, property]) => [key, mockValue(property, words, maxRef, random)]));
+    case Type.ARRAY:
+      return Array.from({ length: 1 + Math.floor(random() * 3) }, () => mockValue(schema.items || { type: Type.STRING }, words, maxRef, random));
+    case Type.INTEGER:
+      return 1 + Math.floor(random() * maxRef);
+    case Type.NUMBER:
+      return Math.round(random() * 1000) / 10;
+    case Type.BOOLEAN:
+      return random() < 0.5;
+    default:
+      if (schema.format === 'date') return new Date(Date.UTC(2024, 0, 1) + Math.floor(random() * 365) * 86400000).toISOString().substring(0, 10);
+      return Array.from({ length: 2 + Math.floor(random() * 4) }, pick).join(' ');
+  }
+};
+
+const mockText = (request: LlmRequest): string => {
+  switch (request.task) {
+    case 'translate':
+      // Paragraph structure is kept so chunk joining and side-by-side views can be checked
+      return request.input.split(/\n/).map(line => line.trim() ? `[mock] ${line}` : line).join('\n');
+    case 'summary':
+      return `[mock summary] ${sentencesOf(request.input).slice(0, 2).join(' ')}`;
+    default:
+      return `[mock] ${request.input.substring(0, 200)}`;
+  }
+};
+
+const mockProvider: LlmProvider = {
+  id: 'mock',
+  name: 'Offline mock',
+  description: 'Deterministic local answers built from the input; no network, no key. For development and testing.',
+  models: ['mock-1'],
+  isConfigured: () => true,
+  generate: async (request) => {
+    const random = seededRandom(seedOf(`${request.task}\n${request.instructions}\n${request.input}`));
+    let text: string;
+    if (request.schema) {
+      const words = request.input.split(/[\s,.;:!?()[\]"'။၊]+/).filter(word => word.length > 2);
+      const refs = [...request.input.matchAll(/^\[(\d+)\]/gm)].map(match => parseInt(match[1], 10));
+      text = JSON.stringify(mockValue(request.schema, words, Math.max(1, ...refs), random));
+    } else {
+      text = mockText(request);
+    }
+    // A short pause keeps the queue and progress UI behaving like a real provider
+    await new Promise(resolve => setTimeout(resolve, 50));
+    return { text, inputTokens: estimateTokens(buildPrompt(request)), outputTokens: estimateTokens(text) };
+  }
+};
+
+export const LLM_PROVIDERS: LlmProvider[] = [geminiProvider, mockProvider];
+
+export const getLlmProvider = (id: LlmProviderId): LlmProvider =>
+  LLM_PROVIDERS.find(provider => provider.id === id) || geminiProvider;
+
+// What the page stores about a failed AI call; unexpected errors count as request failures
+export const toAiError = (task: AiError['task'], error: any): AiError => ({
+  task,
+  kind: error instanceof LlmError ? error.kind : 'request-failed',
+  message: error?.message || String(error)
+});
@@ -0,0 +1,315 @@
+import { LinkStyle } from '../types';
+
+// HTML -> GitHub Flavored Markdown, plus an attribute-stripped "clean HTML" view.
+// Works on a parsed DOM subtree, so it runs wherever parseHtml does.
+
+export interface MarkdownOptions {
+  baseHref: string; // Relative link and image targets resolve against this
+  linkStyle: LinkStyle;
+  ignoreImages?: boolean;
+}
+
+interface RenderState {
+  options: MarkdownOptions;
+  footnotes: string[];
+}
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'center', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hgroup', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul'
+]);
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const COMMENT_NODE = 8;
+
+const SKIP_TAGS = new Set(['script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'object', 'head']);
+
+const isBlock = (node: Node): boolean =>
+  node.nodeType === ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName.toLowerCase());
+
+const resolve = (url: string | null, state: RenderState): string | null => {
+  if (!url || /^\s*javascript:/i.test(url)) return null;
+  try {
+    return new URL(url.trim(), state.options.baseHref).href;
+  } catch (e) {
+    return null;
+  }
+};
+
+const escapeText = (text: string): string => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+// Characters that would turn a paragraph into a heading, list or quote
+const escapeLineStart = (text: string): string =>
+  text.replace(/^(\s*)([#>+-]|\d+[.)])(?=\s)/, '$1\\$2');
+
+// Destinations with spaces or parentheses go in angle brackets
+const destination = (url: string): string => /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+
+const codeSpan = (text: string): string => {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+};
+
+const wrap = (inner: string, marker: string): string => {
+  const trimmed = inner.trim();
+  if (!trimmed) return inner;
+  // Keep surrounding spaces outside the markers, otherwise GFM ignores them
+  const lead = inner.match(/^\s*/)![0];
+  const trail = inner.match(/\s*$/)![0];
+  return `${lead}${marker}${trimmed}${marker}${trail}`;
+};
+
+const renderLink = (el: Element, state: RenderState): string => {
+  const text = renderInlineChildren(el, state).trim();
+  const href = resolve(el.getAttribute('href'), state);
+  if (!href) return text;
+  const label = text || escapeText(href);
+
+  if (state.options.linkStyle === 'footnote') {
+    let index = state.footnotes.indexOf(href);
+    if (index === -1) {
+      state.footnotes.push(href);
+      index = state.footnotes.length - 1;
+    }
+    return `[${label}][${index + 1}]`;
+  }
+  const title = el.getAttribute('title');
+  return `[${label}](${destination(href)}${title ? ` "${title.replace(/"/g, '\\"')}"` : ''})`;
+};
+
+const renderImage = (el: Element, state: RenderState): string => {
+  if (state.options.ignoreImages) return '';
+  const src = resolve(el.getAttribute('src') || el.getAttribute('data-src'), state);
+  if (!src) return '';
+  const alt = escapeText((el.getAttribute('alt') || '').replace(/\s+/g, ' ').trim());
+  return `![${alt}](${destination(src)})`;
+};
+
+const renderInline = (node: Node, state: RenderState): string => {
+  if (node.nodeType === TEXT_NODE) {
+    return escapeText((node.textContent || '').replace(/\s+/g, ' '));
+  }
+  if (node.nodeType !== ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  if (SKIP_TAGS.has(tag)) return '';
+
+  switch (tag) {
+    case 'br':
+      return '\\\n';
+    case 'img':
+      return renderImage(el, state);
+    case 'a':
+      return renderLink(el, state);
+    case 'strong':
+    case 'b':
+      return wrap(renderInlineChildren(el, state), '**');
+    case 'em':
+    case 'i':
+    case 'cite':
+      return wrap(renderInlineChildren(el, state), '*');
+    case 'del':
+    case 's':
+    case 'strike':
+      return wrap(renderInlineChildren(el, state), '~~');
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const text = (el.textContent || '').replace(/\s+/g, ' ');
+      return text.trim() ? codeSpan(text) : '';
+    }
+    default:
+      return renderInlineChildren(el, state) + (isBlock(el) ? ' ' : '');
+  }
+};
+
+const renderInlineChildren = (el: Element, state: RenderState): string =>
+  Array.from(el.childNodes).map(child => renderInline(child, state)).join('');
+
+// Collapses a run of inline markup into one line (hard breaks kept)
+const collapseInline = (inline: string): string =>
+  inline.replace(/[ \t]+/g, ' ').replace(/ ?\\\n ?/g, '\\\n').replace(/^(\\\n|\s)+|(\\\n|\s)+$/g, '');
+
+const finishParagraph = (inline: string): string => escapeLineStart(collapseInline(inline));
+
+const renderList = (el: Element, state: RenderState): string => {
+  const ordered = el.tagName.toLowerCase() === 'ol';
+  let number = parseInt(el.getAttribute('start') || '1', 10) || 1;
+
+  return Array.from(el.children)
+    .filter(child => child.tagName.toLowerCase() === 'li')
+    .map(item => {
+      const marker = ordered ? `${number++}. ` : '- ';
+      const indent = ' '.repeat(marker.length);
+      // Nested lists hug their parent item so the list stays tight
+      const body = renderBlocks(item, state)
+        .reduce((acc, block) => acc ? `${acc}${/^(- |\d+\. )/.test(block) ? '\n' : '\n\n'}${block}` : block, '');
+      const lines = body.split('\n');
+      return marker + lines.map((line, i) => (i === 0 || !line ? line : indent + line)).join('\n');
+    })
+    .join('\n');
+};
+
+const tableCell = (cell: Element, state: RenderState): string =>
+  collapseInline(renderInlineChildren(cell, state))
+    .replace(/\\\n/g, '<br>')
+    .replace(/\n/g, ' ')
+    .replace(/\|/g, '\\|');
+
+const renderTable = (el: Element, state: RenderState): string => {
+  // Rows of this table only, not of tables nested inside its cells
+  const rows = Array.from(el.querySelectorAll('tr')).filter(row => row.closest('table') === el);
+  if (rows.length === 0) return '';
+
+  const grid = rows.map(row => Array.from(row.children)
+    .filter(cell => /^t[hd]$/i.test(cell.tagName))
+    .flatMap(cell => {
+      const span = Math.max(1, parseInt(cell.getAttribute('colspan') || '1', 10) || 1);
+      return [tableCell(cell, state), ...Array(span - 1).fill('')];
+    }));
+  const width = Math.max(...grid.map(row => row.length));
+  if (width === 0) return '';
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+
+  // GFM needs a header row; use the first row, or an empty one if it holds data cells
+  const firstIsHeader = rows[0].closest('thead') !== null
+    || Array.from(rows[0].children).every(cell => cell.tagName.toLowerCase() === 'th');
+  const header = firstIsHeader ? pad(grid[0]) : Array(width).fill('');
+  const body = firstIsHeader ? grid.slice(1) : grid;
+
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  return [line(header), line(Array(width).fill('---')), ...body.map(row => line(pad(row)))].join('\n');
+};
+
+const renderCodeBlock = (el: Element): string => {
+  const code = el.querySelector('code');
+  const language = ((code || el).getAttribute('class') || '').match(/(?:language|lang)-([\w+#-]+)/)?.[1] || '';
+  const text = (el.textContent || '').replace(/\n$/, '');
+  const longestRun = Math.max(0, ...(text.match(/`{3,}/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+};
+
+const renderBlock = (el: Element, state: RenderState): string[] => {
+  const tag = el.tagName.toLowerCase();
+  if (SKIP_TAGS.has(tag)) return [];
+
+  if (/^h[1-6]$/.test(tag)) {
+    const text = collapseInline(renderInlineChildren(el, state)).replace(/\\\n/g, ' ');
+    return text ? [`${'#'.repeat(parseInt(tag[1], 10))} ${text}`] : [];
+  }
+
+  switch (tag) {
+    case 'hr':
+      return ['---'];
+    case 'pre':
+      return [renderCodeBlock(el)];
+    case 'ul':
+    case 'ol': {
+      const list = renderList(el, state);
+      return list ? [list] : [];
+    }
+    case 'table': {
+      const table = renderTable(el, state);
+      return table ? [table] : [];
+    }
+    case 'blockquote': {
+      const inner = renderBlocks(el, state).join('\n\n');
+      return inner ? [inner.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')] : [];
+    }
+    case 'dt': {
+      const term = finishParagraph(renderInlineChildren(el, state));
+      return term ? [`**${term}**`] : [];
+    }
+    case 'figcaption': {
+      const caption = finishParagraph(renderInlineChildren(el, state));
+      return caption ? [`*${caption}*`] : [];
+    }
+    default:
+      return renderBlocks(el, state);
+  }
+};
+
+const renderBlocks = (el: Element, state: RenderState): string[] => {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const paragraph = finishParagraph(inline);
+    if (paragraph) blocks.push(paragraph);
+    inline = '';
+  };
+
+  el.childNodes.forEach(child => {
+    if (isBlock(child)) {
+      flush();
+      blocks.push(...renderBlock(child as Element, state));
+    } else {
+      inline += renderInline(child, state);
+    }
+  });
+  flush();
+  return blocks;
+};
+
+export const htmlToMarkdown = (root: Element, options: MarkdownOptions): string => {
+  const state: RenderState = { options, footnotes: [] };
+  let markdown = renderBlocks(root, state).join('\n\n');
+
+  if (state.footnotes.length > 0) {
+    markdown += '\n\n' + state.footnotes.map((href, i) => `[${i + 1}]: ${destination(href)}`).join('\n');
+  }
+  return markdown.replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const KEEP_ATTRIBUTES = new Set(['href', 'src', 'alt', 'title', 'colspan', 'rowspan', 'datetime', 'lang', 'start']);
+const UNWRAP_TAGS = new Set(['span', 'font', 'center']);
+const VOID_TAGS = new Set(['img', 'br', 'hr', 'td', 'th']);
+
+// Markup without classes, styles, scripts or wrapper spans; links made absolute
+export const cleanHtml = (root: Element, baseHref: string, ignoreImages: boolean = false): string => {
+  const clone = root.cloneNode(true) as Element;
+  const state: RenderState = { options: { baseHref, linkStyle: 'inline' }, footnotes: [] };
+
+  const walk = (el: Element) => {
+    Array.from(el.childNodes).forEach(child => {
+      if (child.nodeType === COMMENT_NODE) {
+        child.remove();
+        return;
+      }
+      if (child.nodeType !== ELEMENT_NODE) return;
+
+      const childEl = child as Element;
+      const tag = childEl.tagName.toLowerCase();
+      if (SKIP_TAGS.has(tag) || (ignoreImages && (tag === 'img' || tag === 'picture'))) {
+        childEl.remove();
+        return;
+      }
+      walk(childEl);
+
+      Array.from(childEl.attributes).forEach(attr => {
+        if (!KEEP_ATTRIBUTES.has(attr.name)) childEl.removeAttribute(attr.name);
+      });
+      ['href', 'src'].forEach(name => {
+        if (!childEl.hasAttribute(name)) return;
+        const absolute = resolve(childEl.getAttribute(name), state);
+        if (absolute) childEl.setAttribute(name, absolute);
+        else childEl.removeAttribute(name);
+      });
+
+      if (UNWRAP_TAGS.has(tag)) {
+        childEl.replaceWith(...Array.from(childEl.childNodes));
+      } else if (!VOID_TAGS.has(tag) && !childEl.textContent?.trim() && !childEl.querySelector('img')) {
+        childEl.remove();
+      }
+    });
+  };
+  walk(clone);
+
+  return clone.innerHTML.replace(/\n\s*\n+/g, '\n').trim();
+};
@@ -0,0 +1,151 @@
+import { PageMetadata } from '../types';
+
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'ReportageNewsArticle', 'AnalysisNewsArticle', 'WebPage'];
+
+const clean = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+const UTC_OFFSET = /(?:\s|GMT|UTC)([+-])(\d{2}):?(\d{2})$/i;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Wall-clock time at the given offset in minutes; without one, the machine's local time
+const formatDate = (date: Date, offsetMinutes: number | null, withTime: boolean): string => {
+  const shifted = new Date(date.getTime() + (offsetMinutes ?? -date.getTimezoneOffset()) * 60000);
+  const day = `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+  if (!withTime) return day;
+  const time = `${day}T${pad(shifted.getUTCHours())}:${pad(shifted.getUTCMinutes())}:${pad(shifted.getUTCSeconds())}`;
+  if (offsetMinutes === null) return time;
+  const abs = Math.abs(offsetMinutes);
+  return `${time}${offsetMinutes < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+};
+
+// ISO 8601 in the page's own UTC offset, so the date part is the day the page was
+// published where it was published. ISO input is kept as written; other formats are
+// rewritten when they parse, and kept as the original string otherwise.
+const normalizeDate = (value: unknown): string | undefined => {
+  const text = clean(value);
+  if (!text || ISO_DATE.test(text)) return text;
+  const date = new Date(text);
+  if (isNaN(date.getTime())) return text;
+  const offset = text.match(UTC_OFFSET);
+  const offsetMinutes = offset
+    ? (offset[1] === '-' ? -1 : 1) * (parseInt(offset[2], 10) * 60 + parseInt(offset[3], 10))
+    : /\b(GMT|UTC|Z)$/i.test(text) ? 0 : null;
+  return formatDate(date, offsetMinutes, /\d:\d{2}/.test(text));
+};
+
+const resolveUrl = (value: unknown, baseHref: string): string | undefined => {
+  const text = clean(value);
+  if (!text) return undefined;
+  try {
+    return new URL(text, baseHref).href;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+type LdNode = Record<string, unknown>;
+
+const isLdNode = (value: unknown): value is LdNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// JSON-LD names come as a string, a Person/Organization object, or a list of either
+const ldNames = (value: unknown): string[] =>
+  asArray(value)
+    .map(item => typeof item === 'string' ? clean(item) : isLdNode(item) ? clean(item.name) : undefined)
+    .filter((name): name is string => !!name);
+
+const ldImage = (value: unknown): unknown => {
+  const first = asArray(value)[0];
+  return typeof first === 'string' ? first : isLdNode(first) ? first.url : undefined;
+};
+
+const ldTypes = (node: LdNode): unknown[] => asArray(node['@type']);
+
+const isArticleNode = (node: LdNode): boolean =>
+  ldTypes(node).some(type => typeof type === 'string' && ARTICLE_TYPES.includes(type));
+
+const findLdArticle = (doc: Document): LdNode | undefined => {
+  const nodes: LdNode[] = [];
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      const data: unknown = JSON.parse(script.textContent || '');
+      asArray(data).filter(isLdNode).forEach(item => {
+        nodes.push(item, ...asArray(item['@graph']).filter(isLdNode));
+      });
+    } catch (e) { /* malformed JSON-LD is common; skip the block */ }
+  });
+  const articles = nodes.filter(isArticleNode);
+  // A generic WebPage only counts when there is no real article node
+  return articles.find(node => !ldTypes(node).includes('WebPage')) || articles[0];
+};
+
+const metaContent = (doc: Document, ...keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const el = doc.querySelector(`meta[property="${key}"], meta[name="${key}"]`);
+    const value = clean(el?.getAttribute('content'));
+    if (value) return value;
+  }
+  return undefined;
+};
+
+// JSON-LD wins over OpenGraph, which wins over Twitter and plain <meta> tags
+export const extractMetadata = (doc: Document, baseHref: string): PageMetadata => {
+  const ld: LdNode = findLdArticle(doc) || {};
+
+  const authors = ldNames(ld.author);
+  const metaAuthor = metaContent(doc, 'author', 'article:author', 'twitter:creator');
+  if (authors.length === 0 && metaAuthor) authors.push(metaAuthor);
+
+  const keywordSource = ld.keywords ?? metaContent(doc, 'keywords', 'news_keywords');
+  const keywords = asArray(keywordSource)
+    .flatMap(value => typeof value === 'string' ? value.split(',') : [])
+    .map(value => value.trim())
+    .filter(Boolean);
+
+  const timeEl = doc.querySelector('time[datetime]');
+
+  const metadata: PageMetadata = {
+    headline: clean(ld.headline) || metaContent(doc, 'og:title', 'twitter:title'),
+    description: clean(ld.description) || metaContent(doc, 'og:description', 'twitter:description', 'description'),
+    authors: authors.length > 0 ? authors : undefined,
+    publishedAt: normalizeDate(ld.datePublished)
+      || normalizeDate(metaContent(doc, 'article:published_time', 'datePublished', 'pubdate', 'date'))
+      || normalizeDate(timeEl?.getAttribute('datetime')),
+    modifiedAt: normalizeDate(ld.dateModified) || normalizeDate(metaContent(doc, 'article:modified_time', 'og:updated_time')),
+    image: resolveUrl(ldImage(ld.image), baseHref) || resolveUrl(metaContent(doc, 'og:image', 'twitter:image'), baseHref),
+    language: clean(ld.inLanguage) || clean(doc.documentElement.getAttribute('lang')) || metaContent(doc, 'og:locale'),
+    siteName: metaContent(doc, 'og:site_name') || ldNames(ld.publisher)[0],
+    section: clean(asArray(ld.articleSection)[0]) || metaContent(doc, 'article:section'),
+    keywords: keywords.length > 0 ? [...new Set(keywords)] : undefined,
+    type: clean(asArray(ld['@type'])[0]) || metaContent(doc, 'og:type')
+  };
+
+  // Drop empty keys so exports and stored sessions stay compact
+  (Object.keys(metadata) as (keyof PageMetadata)[]).forEach(key => {
+    if (metadata[key] === undefined) delete metadata[key];
+  });
+  return metadata;
+};
+
+export const METADATA_LABELS: Record<keyof PageMetadata, string> = {
+  headline: 'Headline',
+  description: 'Description',
+  authors: 'Authors',
+  publishedAt: 'Published',
+  modifiedAt: 'Modified',
+  image: 'Image',
+  language: 'Language',
+  siteName: 'Site',
+  section: 'Section',
+  keywords: 'Keywords',
+  type: 'Type'
+};
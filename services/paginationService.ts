@@ -0,0 +1,131 @@
+import { FailureReason, PaginationCombine } from '../types';
+
+// URL templates for ID range crawls. `{{page}}` takes the start/end/step range; any
+// other `{{name}}` takes a list of values. `{{page:04}}` zero-pads to four digits.
+
+export interface PaginationOptions {
+  start: number;
+  end: number; // Below `start` for a descending range
+  step?: number; // Always positive; the direction comes from start and end
+  values?: Record<string, string>; // Value specs for placeholders other than {{page}}
+  combine?: PaginationCombine; // How other placeholders' lists combine; the page range always multiplies
+}
+
+export interface Placeholder {
+  name: string;
+  width: number; // Zero-padding; 0 for none
+}
+
+export interface PaginatedUrl {
+  url: string;
+  pageId: number;
+  series: string; // Values of the other placeholders; '' when there are none
+}
+
+// Generating more than this would only fill memory; such ranges are rejected up front
+export const MAX_PAGINATED_URLS = 50000;
+
+export const PAGE_PLACEHOLDER = 'page';
+
+const PLACEHOLDER_PATTERN = /\{\{(\w+)(?::(\d+))?\}\}/g;
+const RANGE_ITEM = /^(\d+)\s*-\s*(\d+)(?:\s*:\s*(\d+))?$/;
+
+// Unique placeholders in the order they first appear
+export const getPlaceholders = (template: string): Placeholder[] => {
+  const seen = new Map<string, Placeholder>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!seen.has(match[1])) seen.set(match[1], { name: match[1], width: match[2] ? parseInt(match[2], 10) : 0 });
+  }
+  return [...seen.values()];
+};
+
+const rangeLength = (start: number, end: number, step: number): number => Math.floor(Math.abs(end - start) / step) + 1;
+
+const expandRange = (start: number, end: number, step: number): number[] => {
+  const direction = end < start ? -1 : 1;
+  return Array.from({ length: rangeLength(start, end, step) }, (_, i) => start + i * step * direction);
+};
+
+// Comma-separated items: a literal, a range `1-12` (descending `12-1` works too) or a stepped range `0-100:10`
+export const parseValueSpec = (spec: string): string[] =>
+  spec.split(',').map(item => item.trim()).filter(Boolean).flatMap(item => {
+    const range = item.match(RANGE_ITEM);
+    if (!range) return [item];
+    const width = range[1].length > 1 && range[1].startsWith('0') ? range[1].length : 0;
+    return expandRange(parseInt(range[1], 10), parseInt(range[2], 10), Math.max(1, parseInt(range[3] || '1', 10)))
+      .map(value => value.toString().padStart(width, '0'));
+  });
+
+const pad = (value: string, width: number): string => /^\d+$/.test(value) ? value.padStart(width, '0') : value;
+
+// Fills every placeholder; without any, the ID is appended as before templates existed
+export const buildPageUrl = (template: string, id: number, values: Record<string, string> = {}): string => {
+  if (getPlaceholders(template).length === 0) {
+    if (template.endsWith('=') || template.endsWith('/')) return `${template}${id}`;
+    return `${template}/${id}`;
+  }
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, width?: string) => {
+    const value = name === PAGE_PLACEHOLDER ? id.toString() : values[name];
+    return value === undefined ? placeholder : pad(value, width ? parseInt(width, 10) : 0);
+  });
+};
+
+export const otherPlaceholders = (template: string): Placeholder[] =>
+  getPlaceholders(template).filter(placeholder => placeholder.name !== PAGE_PLACEHOLDER);
+
+// A template of lists only (`{{year}}/{{month}}`) has no page range to walk
+const usesPageRange = (template: string): boolean => {
+  const placeholders = getPlaceholders(template);
+  return placeholders.length === 0 || placeholders.some(({ name }) => name === PAGE_PLACEHOLDER);
+};
+
+// Combinations of the non-page placeholders, each as name -> value
+const combineValues = (template: string, options: PaginationOptions): Record<string, string>[] => {
+  const lists = otherPlaceholders(template).map(({ name }) => ({ name, values: parseValueSpec(options.values?.[name] || '') }));
+  if (lists.length === 0) return [{}];
+  if (options.combine === 'zip') {
+    return lists[0].values.map((_, i) => Object.fromEntries(lists.map(({ name, values }) => [name, values[i]])));
+  }
+  return lists.reduce<Record<string, string>[]>(
+    (combos, { name, values }) => combos.flatMap(combo => values.map(value => ({ ...combo, [name]: value }))),
+    [{}]
+  );
+};
+
+const pageIds = (template: string, options: PaginationOptions): number[] =>
+  usesPageRange(template) ? expandRange(options.start, options.end, Math.max(1, options.step || 1)) : [options.start];
+
+// Counted without generating, so the UI can show it while typing
+export const countPaginatedUrls = (template: string, options: PaginationOptions): number => {
+  const lengths = otherPlaceholders(template).map(({ name }) => parseValueSpec(options.values?.[name] || '').length);
+  const combos = lengths.length === 0 ? 1 : options.combine === 'zip' ? Math.min(...lengths) : lengths.reduce((a, b) => a * b, 1);
+  return combos * (usesPageRange(template) ? rangeLength(options.start, options.end, Math.max(1, options.step || 1)) : 1);
+};
+
+// Null when the template and options can be generated
+export const validatePagination = (template: string, options: PaginationOptions): string | null => {
+  if (!Number.isFinite(options.start) || !Number.isFinite(options.end)) return 'Start and end IDs must be numbers.';
+  if (options.step !== undefined && (!Number.isFinite(options.step) || options.step < 1)) return 'Step must be 1 or more.';
+  const lengths = otherPlaceholders(template).map(({ name }) => ({ name, length: parseValueSpec(options.values?.[name] || '').length }));
+  const empty = lengths.find(({ length }) => length === 0);
+  if (empty) return `No values for {{${empty.name}}}.`;
+  if (options.combine === 'zip' && new Set(lengths.map(({ length }) => length)).size > 1) {
+    return `Paired placeholders need the same number of values (${lengths.map(({ name, length }) => `${name}: ${length}`).join(', ')}).`;
+  }
+  const count = countPaginatedUrls(template, options);
+  if (count > MAX_PAGINATED_URLS) return `${count.toLocaleString()} URLs is more than the limit of ${MAX_PAGINATED_URLS.toLocaleString()}.`;
+  return null;
+};
+
+// Each series runs through the whole page range before the next one starts
+export const generatePaginatedUrls = (template: string, options: PaginationOptions): PaginatedUrl[] => {
+  const ids = pageIds(template, options);
+  return combineValues(template, options).flatMap(values => {
+    const series = Object.entries(values).map(([name, value]) => `${name}=${value}`).join(', ');
+    return ids.map(id => ({ url: buildPageUrl(template, id, values), pageId: id, series }));
+  });
+};
+
+// Results that mean the ID does not exist (deleted or not yet published), as opposed to a fetch problem
+export const isMissingPage = (reason: FailureReason, status?: number): boolean =>
+  reason === 'soft-404' || reason === 'empty-content' || (reason === 'http-error' && (status === 404 || status === 410));
@@ -0,0 +1,164 @@
+import { ProxyConfig } from '../types';
+
+export interface ProxyHealth {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number; // Moving average over successful requests
+  lastFailureAt?: number;
+  lastError?: string;
+  quarantinedUntil?: number;
+  quarantineCount: number;
+}
+
+export interface ProxyStatus extends ProxyConfig {
+  health: ProxyHealth;
+  score: number;
+  quarantined: boolean;
+}
+
+const STORAGE_KEY = 'autocrawler.proxies';
+
+// Quarantine after this many failures in a row, for a period that doubles each time
+const QUARANTINE_AFTER = 3;
+const QUARANTINE_BASE_MS = 60000;
+const QUARANTINE_MAX_MS = 600000;
+const LATENCY_SMOOTHING = 0.3;
+
+export const DEFAULT_PROXIES: ProxyConfig[] = [
+  // High success rate for text content, and reports the real status
+  { id: 'allorigins', name: 'AllOrigins', template: 'https://api.allorigins.win/get?url={url}', format: 'allorigins-json', enabled: true, builtIn: true },
+  // Very robust, often works when others fail
+  { id: 'codetabs', name: 'CodeTabs', template: 'https://api.codetabs.com/v1/proxy?quest={url}', format: 'text', enabled: true, builtIn: true },
+  // Standard CORS proxy
+  { id: 'corsproxy', name: 'CorsProxy', template: 'https://corsproxy.io/?{url}', format: 'text', enabled: true, builtIn: true },
+  // Backup 1
+  { id: 'thingproxy', name: 'ThingProxy', template: 'https://thingproxy.freeboard.io/fetch/{rawUrl}', format: 'text', enabled: true, builtIn: true },
+  // Backup 2
+  { id: 'hacapp', name: 'HacApp', template: 'https://api.hac.app/proxy?url={url}', format: 'text', enabled: true, builtIn: true }
+];
+
+const loadProxies = (): ProxyConfig[] => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+    }
+  } catch (e) {
+    console.warn('Could not read proxy settings:', e);
+  }
+  return DEFAULT_PROXIES.map(proxy => ({ ...proxy }));
+};
+
+let proxies: ProxyConfig[] = loadProxies();
+const health = new Map<string, ProxyHealth>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const getHealth = (id: string): ProxyHealth => {
+  let entry = health.get(id);
+  if (!entry) {
+    entry = { successes: 0, failures: 0, consecutiveFailures: 0, avgLatencyMs: 0, quarantineCount: 0 };
+    health.set(id, entry);
+  }
+  return entry;
+};
+
+// Smoothed success rate, discounted by latency so a fast proxy wins a tie
+const scoreOf = (entry: ProxyHealth): number => {
+  const successRate = (entry.successes + 1) / (entry.successes + entry.failures + 2);
+  return successRate / (1 + entry.avgLatencyMs / 5000);
+};
+
+export const buildProxyUrl = (proxy: ProxyConfig, target: string): string =>
+  proxy.template
+    .replace('{url}', encodeURIComponent(target))
+    .replace('{rawUrl}', target);
+
+export const getProxies = (): ProxyConfig[] => proxies;
+
+export const setProxies = (next: ProxyConfig[]) => {
+  proxies = next;
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    }
+  } catch (e) {
+    console.warn('Could not save proxy settings:', e);
+  }
+  notify();
+};
+
+export const resetProxies = () => {
+  setProxies(DEFAULT_PROXIES.map(proxy => ({ ...proxy })));
+};
+
+export const getProxyStatuses = (): ProxyStatus[] => {
+  const now = Date.now();
+  return proxies.map(proxy => {
+    const entry = getHealth(proxy.id);
+    return {
+      ...proxy,
+      health: { ...entry },
+      score: scoreOf(entry),
+      quarantined: !!entry.quarantinedUntil && entry.quarantinedUntil > now
+    };
+  });
+};
+
+// Enabled proxies, best score first with the configured order breaking ties.
+// If every proxy is quarantined, the one released soonest is still tried.
+export const getOrderedProxies = (): ProxyConfig[] => {
+  const statuses = getProxyStatuses().filter(status => status.enabled);
+  const available = statuses
+    .filter(status => !status.quarantined)
+    .sort((a, b) => b.score - a.score);
+
+  if (available.length > 0) return available;
+
+  return statuses
+    .sort((a, b) => (a.health.quarantinedUntil || 0) - (b.health.quarantinedUntil || 0))
+    .slice(0, 1);
+};
+
+export const recordProxySuccess = (id: string, latencyMs: number) => {
+  const entry = getHealth(id);
+  entry.successes++;
+  entry.consecutiveFailures = 0;
+  entry.quarantineCount = 0;
+  entry.quarantinedUntil = undefined;
+  entry.avgLatencyMs = entry.avgLatencyMs === 0
+    ? latencyMs
+    : entry.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+  notify();
+};
+
+export const recordProxyFailure = (id: string, error: string) => {
+  const entry = getHealth(id);
+  entry.failures++;
+  entry.consecutiveFailures++;
+  entry.lastFailureAt = Date.now();
+  entry.lastError = error;
+
+  if (entry.consecutiveFailures >= QUARANTINE_AFTER) {
+    const duration = Math.min(QUARANTINE_MAX_MS, QUARANTINE_BASE_MS * Math.pow(2, entry.quarantineCount));
+    entry.quarantinedUntil = Date.now() + duration;
+    entry.quarantineCount++;
+    entry.consecutiveFailures = 0;
+  }
+  notify();
+};
+
+export const resetProxyHealth = () => {
+  health.clear();
+  notify();
+};
+
+export const subscribeProxyHealth = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,30 @@
+import { FailureReason } from '../types';
+
+export const FAILURE_LABELS: Record<FailureReason, string> = {
+  'timeout': 'Timeout',
+  'all-proxies-failed': 'All proxies failed',
+  'http-error': 'HTTP error',
+  'rate-limited': 'Rate limited',
+  'soft-404': 'Soft 404',
+  'empty-content': 'Empty content',
+  'parse-error': 'Parse error'
+};
+
+// Failures worth another attempt; the rest will fail the same way again
+export const isTransientFailure = (reason: FailureReason, status?: number): boolean => {
+  if (reason === 'timeout' || reason === 'all-proxies-failed' || reason === 'rate-limited') return true;
+  return reason === 'http-error' && status !== undefined && status >= 500;
+};
+
+// Failures that say something about the host rather than the page: timeouts, proxy
+// failures and 5xx. A 404 or 403 is the page's answer and must not slow the host down.
+export const isHostFailure = (reason: FailureReason, status?: number): boolean =>
+  reason === 'timeout' || reason === 'all-proxies-failed'
+    || (reason === 'http-error' && (status === undefined || status >= 500));
+
+// Exponential backoff with up to 20% jitter, never shorter than the server's Retry-After
+export const getRetryDelay = (attempt: number, baseDelayMs: number, retryAfterMs?: number): number => {
+  const exponential = baseDelayMs * Math.pow(2, attempt);
+  const jitter = exponential * 0.2 * Math.random();
+  return Math.max(retryAfterMs || 0, Math.round(exponential + jitter));
+};
@@ -0,0 +1,114 @@
+import { fetchUrlContent } from './crawlerService';
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelay?: number; // Seconds
+  sitemaps: string[];
+}
+
+// Token matched against User-agent groups before falling back to `*`
+const USER_AGENT_TOKEN = 'autocrawler';
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export const parseRobotsTxt = (text: string, userAgent: string = USER_AGENT_TOKEN): RobotsPolicy => {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+
+    const field = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      return;
+    }
+    lastWasAgent = false;
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (!current) {
+      return;
+    } else if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow means "allow everything" and adds no rule
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  });
+
+  const token = userAgent.toLowerCase();
+  const group = groups.find(g => g.agents.some(agent => agent !== '*' && token.includes(agent))) ||
+                groups.find(g => g.agents.includes('*'));
+
+  return {
+    rules: group?.rules || [],
+    crawlDelay: group?.crawlDelay,
+    sitemaps
+  };
+};
+
+const ruleMatches = (path: string, pattern: string): boolean => {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+};
+
+// Longest matching rule wins; Allow wins a tie
+export const isAllowedByRobots = (url: string, policy: RobotsPolicy): boolean => {
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = parsed.pathname + parsed.search;
+  } catch (e) {
+    return true;
+  }
+
+  let best: RobotsRule | null = null;
+  policy.rules.forEach(rule => {
+    if (!ruleMatches(path, rule.path)) return;
+    if (!best || rule.path.length > best.path.length ||
+        (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  });
+
+  return best ? (best as RobotsRule).allow : true;
+};
+
+// Returns null when robots.txt is missing or unreachable, which means no restrictions
+export const fetchRobotsPolicy = async (origin: string): Promise<RobotsPolicy | null> => {
+  try {
+    const { html } = await fetchUrlContent(`${origin}/robots.txt`, { minLength: 0 });
+    // Proxies sometimes return the site's HTML 404 page instead of an error
+    if (/^\s*</.test(html)) return null;
+    return parseRobotsTxt(html);
+  } catch (e) {
+    return null;
+  }
+};
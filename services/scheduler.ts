@@ -0,0 +1,203 @@
+import { QueueEntry } from '../types';
+
+export interface SchedulerOptions {
+  concurrency: number; // Global limit on requests in flight
+  perHostConcurrency: number;
+  perHostDelayMs: number; // Minimum gap between request starts on one host
+}
+
+// 'rate-limited' covers HTTP 429/503; retryAfterMs comes from Retry-After when known
+export interface TaskResult {
+  outcome: 'ok' | 'error' | 'rate-limited' | 'skipped';
+  retryAfterMs?: number;
+}
+
+export interface SchedulerStats {
+  inFlight: number;
+  ratePerMinute: number;
+  backedOffHosts: number;
+}
+
+export interface SchedulerCallbacks {
+  // Removes and returns the next entry that canStart() accepts, or undefined
+  pickNext: (canStart: (url: string) => boolean) => QueueEntry | undefined;
+  hasPending: () => boolean;
+  runTask: (entry: QueueEntry) => Promise<TaskResult>;
+  onIdle: () => void;
+  onStats?: (stats: SchedulerStats) => void;
+  onBackoff?: (host: string, delayMs: number) => void;
+}
+
+export interface CrawlScheduler {
+  start: () => void;
+  stop: () => void;
+  setHostDelay: (host: string, delayMs: number) => void;
+  getStats: () => SchedulerStats;
+}
+
+interface HostState {
+  active: number;
+  nextAllowedAt: number;
+  lastStartedAt: number; // 0 until the first request
+  minDelayMs: number; // Raised by robots.txt Crawl-delay
+  backoffMs: number;
+  failures: number;
+}
+
+const MAX_BACKOFF_MS = 120000;
+const RATE_LIMIT_BASE_MS = 5000;
+const RATE_WINDOW_MS = 60000;
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch (e) {
+    return url;
+  }
+};
+
+export const createCrawlScheduler = (options: SchedulerOptions, callbacks: SchedulerCallbacks): CrawlScheduler => {
+  const hosts = new Map<string, HostState>();
+  const completions: number[] = [];
+  let inFlight = 0;
+  let running = false;
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const getHost = (host: string): HostState => {
+    let state = hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextAllowedAt: 0, lastStartedAt: 0, minDelayMs: options.perHostDelayMs, backoffMs: 0, failures: 0 };
+      hosts.set(host, state);
+    }
+    return state;
+  };
+
+  const getStats = (): SchedulerStats => {
+    const now = Date.now();
+    while (completions.length > 0 && completions[0] < now - RATE_WINDOW_MS) {
+      completions.shift();
+    }
+    return {
+      inFlight,
+      ratePerMinute: completions.length,
+      backedOffHosts: [...hosts.values()].filter(h => h.backoffMs > 0).length
+    };
+  };
+
+  const emitStats = () => callbacks.onStats?.(getStats());
+
+  const canStart = (url: string): boolean => {
+    const state = getHost(hostOf(url));
+    return state.active < options.perHostConcurrency && Date.now() >= state.nextAllowedAt;
+  };
+
+  const applyResult = (host: string, state: HostState, result: TaskResult, startedFrom: number, previousStart: number) => {
+    switch (result.outcome) {
+      case 'ok':
+        state.failures = 0;
+        state.backoffMs = Math.floor(state.backoffMs / 2);
+        if (state.backoffMs < 500) state.backoffMs = 0;
+        break;
+      case 'skipped':
+        // Nothing was fetched, so give the politeness slot back
+        state.nextAllowedAt = startedFrom;
+        state.lastStartedAt = previousStart;
+        break;
+      case 'error':
+        state.failures++;
+        if (state.failures >= 2) {
+          state.backoffMs = Math.min(MAX_BACKOFF_MS, Math.max(1000, state.backoffMs * 2));
+          callbacks.onBackoff?.(host, state.backoffMs);
+        }
+        break;
+      case 'rate-limited':
+        state.failures++;
+        state.backoffMs = Math.min(MAX_BACKOFF_MS, Math.max(result.retryAfterMs || 0, RATE_LIMIT_BASE_MS, state.backoffMs * 2));
+        callbacks.onBackoff?.(host, state.backoffMs);
+        break;
+    }
+    if (state.backoffMs > 0) {
+      state.nextAllowedAt = Math.max(state.nextAllowedAt, Date.now() + state.backoffMs);
+    }
+  };
+
+  const launch = (entry: QueueEntry) => {
+    const host = hostOf(entry.url);
+    const state = getHost(host);
+    const startedFrom = state.nextAllowedAt;
+    const previousStart = state.lastStartedAt;
+    state.active++;
+    state.lastStartedAt = Date.now();
+    state.nextAllowedAt = state.lastStartedAt + state.minDelayMs;
+    inFlight++;
+    emitStats();
+
+    callbacks.runTask(entry)
+      .catch((): TaskResult => ({ outcome: 'error' }))
+      .then(result => {
+        state.active--;
+        inFlight--;
+        if (result.outcome !== 'skipped') completions.push(Date.now());
+        applyResult(host, state, result, startedFrom, previousStart);
+        emitStats();
+        pump();
+      });
+  };
+
+  const scheduleWake = () => {
+    if (wakeTimer) return;
+    const now = Date.now();
+    const waits = [...hosts.values()]
+      .filter(h => h.active < options.perHostConcurrency && h.nextAllowedAt > now)
+      .map(h => h.nextAllowedAt - now);
+    const delay = waits.length > 0 ? Math.min(...waits) : 250;
+    wakeTimer = setTimeout(() => {
+      wakeTimer = null;
+      pump();
+    }, Math.max(50, delay));
+  };
+
+  const pump = () => {
+    if (!running) return;
+
+    while (inFlight < options.concurrency) {
+      const entry = callbacks.pickNext(canStart);
+      if (!entry) break;
+      launch(entry);
+    }
+
+    if (inFlight === 0 && !callbacks.hasPending()) {
+      running = false;
+      callbacks.onIdle();
+      return;
+    }
+
+    // Work is waiting on a host cooldown
+    if (inFlight < options.concurrency && callbacks.hasPending()) {
+      scheduleWake();
+    }
+  };
+
+  return {
+    start: () => {
+      running = true;
+      pump();
+    },
+    stop: () => {
+      running = false;
+      if (wakeTimer) {
+        clearTimeout(wakeTimer);
+        wakeTimer = null;
+      }
+    },
+    setHostDelay: (host: string, delayMs: number) => {
+      const state = getHost(host);
+      state.minDelayMs = Math.max(options.perHostDelayMs, delayMs);
+      // The delay often arrives while the host's first request is in flight
+      if (state.lastStartedAt > 0) {
+        state.nextAllowedAt = Math.max(state.nextAllowedAt, state.lastStartedAt + state.minDelayMs);
+      }
+    },
+    getStats
+  };
+};
@@ -0,0 +1,274 @@
+import { ChangeStatus, CrawledPage } from '../types';
+
+// In-memory full-text index over crawled pages. Burmese is written without spaces
+// between words, so Myanmar text is indexed per syllable and matched as a phrase.
+
+export interface Token {
+  text: string;
+  start: number; // Character offsets in the tokenized string
+  end: number;
+  myanmar: boolean;
+  run: number; // Consecutive Myanmar syllables share a run
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface PageFilter {
+  query: string;
+  status: 'all' | 'success' | 'failed';
+  domain: string; // Hostname; empty for all
+  dateFrom: string; // YYYY-MM-DD, inclusive; empty for no bound
+  dateTo: string;
+  minKb: number; // Content length bounds; 0 for no bound
+  maxKb: number;
+  change: 'all' | 'new-or-changed' | Exclude<ChangeStatus, 'gone'>; // Against the compared run
+}
+
+export interface FilteredPage {
+  page: CrawledPage;
+  idx: number; // Position in the crawl, so FILE_n labels stay stable
+  score?: number;
+  snippet?: SnippetPart[];
+}
+
+export const EMPTY_FILTER: PageFilter = { query: '', status: 'all', domain: '', dateFrom: '', dateTo: '', minKb: 0, maxKb: 0, change: 'all' };
+
+const TOKEN_PATTERN = /([\u1000-\u109f]+)|((?:(?![\u1000-\u109f])[\p{L}\p{N}\p{M}])+)/gu;
+const SYLLABLE_START = /[\u1000-\u102a\u103f\u1040-\u104f]/;
+const MYANMAR_DIGIT = /[\u1040-\u1049]/;
+const MYANMAR_PUNCTUATION = /^[\u104a-\u104f]+$/;
+const TITLE_WEIGHT = 3;
+const MIN_PREFIX_LENGTH = 3;
+
+// A syllable starts at a consonant (or independent vowel, digit, sign) unless it is stacked
+// under a virama or carries asat/virama itself; runs of digits stay together
+const isSyllableBreak = (run: string, i: number): boolean => {
+  const char = run[i];
+  if (!SYLLABLE_START.test(char)) return false;
+  if (MYANMAR_DIGIT.test(char) && MYANMAR_DIGIT.test(run[i - 1])) return false;
+  return run[i - 1] !== '\u1039' && run[i + 1] !== '\u103a' && run[i + 1] !== '\u1039';
+};
+
+// Zero-width spaces (used between Burmese words) become spaces so offsets still line up
+const normalize = (text: string): string => text.normalize('NFC').replace(/\u200b/g, ' ').toLowerCase();
+
+export const tokenize = (input: string): Token[] => {
+  const text = normalize(input);
+  const tokens: Token[] = [];
+  let run = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const offset = match.index!;
+    if (match[2]) {
+      tokens.push({ text: match[2], start: offset, end: offset + match[2].length, myanmar: false, run: -1 });
+      continue;
+    }
+    const myanmar = match[1];
+    let start = 0;
+    const push = (end: number) => {
+      const syllable = myanmar.substring(start, end);
+      if (!MYANMAR_PUNCTUATION.test(syllable)) {
+        tokens.push({ text: syllable, start: offset + start, end: offset + end, myanmar: true, run });
+      }
+      start = end;
+    };
+    for (let i = 1; i < myanmar.length; i++) {
+      if (isSyllableBreak(myanmar, i)) push(i);
+    }
+    push(myanmar.length);
+    run++;
+  }
+  return tokens;
+};
+
+// HTML content is indexed and shown without its markup
+export const plainText = (page: CrawledPage): string =>
+  page.contentFormat === 'html' ? page.content.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ') : page.content;
+
+// A query is a list of terms; a term is one word, or a run of Burmese syllables that must appear in order
+type QueryTerm = string[];
+
+const parseQuery = (query: string): QueryTerm[] => {
+  const terms: QueryTerm[] = [];
+  let lastRun = -1;
+  tokenize(query).forEach(token => {
+    if (token.myanmar && token.run === lastRun) {
+      terms[terms.length - 1].push(token.text);
+    } else {
+      terms.push([token.text]);
+    }
+    lastRun = token.myanmar ? token.run : -1;
+  });
+  return terms;
+};
+
+const isPrefixTerm = (term: QueryTerm): boolean => term.length === 1 && !/[\u1000-\u109f]/.test(term[0]) && term[0].length >= MIN_PREFIX_LENGTH;
+
+const tokenMatches = (token: string, word: string, prefix: boolean): boolean =>
+  prefix ? token.startsWith(word) : token === word;
+
+interface IndexedDoc {
+  titleLength: number; // Positions below this are in the title
+}
+
+export interface SearchIndex {
+  docs: IndexedDoc[];
+  postings: Map<string, Map<number, number[]>>; // token -> doc -> positions
+}
+
+export const buildSearchIndex = (pages: CrawledPage[]): SearchIndex => {
+  const postings = new Map<string, Map<number, number[]>>();
+  const docs = pages.map((page, doc) => {
+    const title = tokenize([page.title, page.translation?.title].filter(Boolean).join('\n'));
+    const body = tokenize([plainText(page), page.translation?.content].filter(Boolean).join('\n'));
+    // The gap after the title keeps phrases from matching across title and body
+    [...title, null, ...body].forEach((token, position) => {
+      if (!token) return;
+      let docs = postings.get(token.text);
+      if (!docs) postings.set(token.text, docs = new Map());
+      const positions = docs.get(doc);
+      if (positions) positions.push(position);
+      else docs.set(doc, [position]);
+    });
+    return { titleLength: title.length };
+  });
+  return { docs, postings };
+};
+
+const termPositions = (index: SearchIndex, term: QueryTerm): Map<number, number[]> => {
+  if (isPrefixTerm(term)) {
+    const merged = new Map<number, number[]>();
+    index.postings.forEach((docs, token) => {
+      if (!token.startsWith(term[0])) return;
+      docs.forEach((positions, doc) => merged.set(doc, [...(merged.get(doc) || []), ...positions]));
+    });
+    return merged;
+  }
+
+  // Phrase: positions where every syllable follows the previous one
+  let current = index.postings.get(term[0]) || new Map<number, number[]>();
+  for (let i = 1; i < term.length && current.size > 0; i++) {
+    const next = index.postings.get(term[i]);
+    const narrowed = new Map<number, number[]>();
+    current.forEach((positions, doc) => {
+      const following = new Set(next?.get(doc) || []);
+      const kept = positions.filter(position => following.has(position + i));
+      if (kept.length > 0) narrowed.set(doc, kept);
+    });
+    current = narrowed;
+  }
+  return current;
+};
+
+// Matching pages by crawl index, with a score: every term must match, title hits weigh more
+export const searchIndex = (index: SearchIndex, query: string): Map<number, number> => {
+  const terms = parseQuery(query);
+  const scores = new Map<number, number>();
+  if (terms.length === 0) return scores;
+
+  terms.forEach((term, i) => {
+    const hits = termPositions(index, term);
+    if (i === 0) {
+      hits.forEach((_, doc) => scores.set(doc, 0));
+    } else {
+      [...scores.keys()].forEach(doc => {
+        if (!hits.has(doc)) scores.delete(doc);
+      });
+    }
+    hits.forEach((positions, doc) => {
+      if (!scores.has(doc)) return;
+      const { titleLength } = index.docs[doc];
+      const score = positions.reduce((sum, position) => sum + (position < titleLength ? TITLE_WEIGHT : 1), 0);
+      scores.set(doc, scores.get(doc)! + score);
+    });
+  });
+  return scores;
+};
+
+// Text around the first match, split into plain and highlighted parts
+export const buildSnippet = (text: string, query: string, width: number = 200): SnippetPart[] => {
+  const terms = parseQuery(query);
+  const tokens = tokenize(text);
+  const ranges: [number, number][] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    for (const term of terms) {
+      if (i + term.length > tokens.length) continue;
+      const prefix = isPrefixTerm(term);
+      if (term.every((word, k) => tokenMatches(tokens[i + k].text, word, prefix))) {
+        ranges.push([tokens[i].start, tokens[i + term.length - 1].end]);
+        break;
+      }
+    }
+  }
+
+  // Offsets come from the normalized text; it only differs in length for rare characters
+  const source = normalize(text).length === text.length ? text : normalize(text);
+  const first = ranges[0]?.[0] ?? 0;
+  const from = Math.max(0, first - Math.floor(width / 3));
+  const to = Math.min(source.length, from + width);
+
+  const parts: SnippetPart[] = [];
+  let cursor = from;
+  ranges
+    .filter(([start, end]) => end > from && start < to)
+    .forEach(([start, end]) => {
+      const clippedStart = Math.max(start, cursor);
+      if (clippedStart > cursor) parts.push({ text: source.substring(cursor, clippedStart), match: false });
+      const clippedEnd = Math.min(end, to);
+      if (clippedEnd > clippedStart) parts.push({ text: source.substring(clippedStart, clippedEnd), match: true });
+      cursor = Math.max(cursor, clippedEnd);
+    });
+  if (cursor < to) parts.push({ text: source.substring(cursor, to), match: false });
+
+  if (parts.length > 0) {
+    parts[0].text = (from > 0 ? '…' : '') + parts[0].text.replace(/^\s+/, '');
+    parts[parts.length - 1].text = parts[parts.length - 1].text.replace(/\s+$/, '') + (to < source.length ? '…' : '');
+  }
+  return parts.map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') }));
+};
+
+export const pageHost = (page: CrawledPage): string => {
+  try {
+    return new URL(page.url).hostname;
+  } catch (e) {
+    return '';
+  }
+};
+
+// Published date when the page declares one, crawl date otherwise
+export const pageDate = (page: CrawledPage): string =>
+  (page.metadata?.publishedAt && /^\d{4}-\d{2}-\d{2}/.test(page.metadata.publishedAt)
+    ? page.metadata.publishedAt
+    : new Date(page.timestamp).toISOString()
+  ).substring(0, 10);
+
+export const isFilterActive = (filter: PageFilter): boolean =>
+  !!filter.query.trim() || filter.status !== 'all' || !!filter.domain || !!filter.dateFrom || !!filter.dateTo || filter.minKb > 0 || filter.maxKb > 0 || filter.change !== 'all';
+
+// Filters keep crawl order; a query re-sorts the matches by score
+export const filterPages = (pages: CrawledPage[], filter: PageFilter, index?: SearchIndex | null): FilteredPage[] => {
+  const query = filter.query.trim();
+  const scores = query && index ? searchIndex(index, query) : null;
+
+  const results: FilteredPage[] = [];
+  pages.forEach((page, idx) => {
+    if (scores && !scores.has(idx)) return;
+    if (filter.status !== 'all' && page.status !== filter.status) return;
+    if (filter.domain && pageHost(page) !== filter.domain) return;
+    const date = pageDate(page);
+    if (filter.dateFrom && date < filter.dateFrom) return;
+    if (filter.dateTo && date > filter.dateTo) return;
+    const kb = page.content.length / 1024;
+    if (filter.minKb > 0 && kb < filter.minKb) return;
+    if (filter.maxKb > 0 && kb > filter.maxKb) return;
+    if (filter.change === 'new-or-changed' && page.change !== 'new' && page.change !== 'changed') return;
+    if (filter.change !== 'all' && filter.change !== 'new-or-changed' && page.change !== filter.change) return;
+    results.push({ page, idx, score: scores?.get(idx) });
+  });
+
+  if (scores) results.sort((a, b) => (b.score || 0) - (a.score || 0) || a.idx - b.idx);
+  return results;
+};
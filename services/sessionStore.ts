@@ -0,0 +1,112 @@
+import { CrawlConfig, CrawlStatus, CrawledPage, LogEntry, QueueEntry } from '../types';
+
+export interface CrawlSessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  status: CrawlStatus;
+  startUrl: string;
+  mode: CrawlConfig['mode'];
+  pageCount: number;
+  queueCount: number;
+}
+
+export interface CrawlSession extends CrawlSessionSummary {
+  config: CrawlConfig;
+  queue: QueueEntry[];
+  visited: string[];
+  pages: CrawledPage[];
+  logs: LogEntry[];
+}
+
+const DB_NAME = 'autocrawler';
+const DB_VERSION = 1;
+// Summaries are kept apart from the bulky session data so listing stays cheap
+const SUMMARY_STORE = 'sessions';
+const DATA_STORE = 'sessionData';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(DATA_STORE)) {
+          db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const toSummary = (session: CrawlSession): CrawlSessionSummary => ({
+  id: session.id,
+  name: session.name,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  status: session.status,
+  startUrl: session.startUrl,
+  mode: session.mode,
+  pageCount: session.pages.length,
+  queueCount: session.queue.length
+});
+
+export const saveSession = async (session: CrawlSession): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).put(toSummary(session));
+  tx.objectStore(DATA_STORE).put(session);
+  await transactionDone(tx);
+};
+
+export const loadSession = async (id: string): Promise<CrawlSession | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(DATA_STORE, 'readonly');
+  return promisify<CrawlSession | undefined>(tx.objectStore(DATA_STORE).get(id));
+};
+
+export const listSessions = async (): Promise<CrawlSessionSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARY_STORE, 'readonly');
+  const summaries = await promisify<CrawlSessionSummary[]>(tx.objectStore(SUMMARY_STORE).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const session = await loadSession(id);
+  if (!session) return;
+  await saveSession({ ...session, name });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,122 @@
+import { fetchUrlContent } from './crawlerService';
+import { fetchRobotsPolicy } from './robotsService';
+import { parseDocument } from './domAdapter';
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+}
+
+export interface ParsedSitemap {
+  isIndex: boolean;
+  entries: SitemapEntry[];
+}
+
+export interface SitemapOptions {
+  maxUrls: number;
+  since?: Date; // Skip entries whose <lastmod> is older than this
+  onLog?: (message: string, type: 'info' | 'success' | 'warning' | 'error') => void;
+}
+
+// Guards against sitemap indexes that point at each other
+const MAX_INDEX_DEPTH = 3;
+
+export const parseSitemap = (xml: string): ParsedSitemap => {
+  const doc = parseDocument(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid sitemap XML');
+  }
+
+  const isIndex = doc.getElementsByTagName('sitemapindex').length > 0;
+  const nodes = Array.from(doc.getElementsByTagName(isIndex ? 'sitemap' : 'url'));
+
+  const entries: SitemapEntry[] = [];
+  nodes.forEach(node => {
+    const loc = node.getElementsByTagName('loc')[0]?.textContent?.trim();
+    if (!loc) return;
+    const lastmod = node.getElementsByTagName('lastmod')[0]?.textContent?.trim();
+    entries.push({ url: loc, lastmod: lastmod || undefined });
+  });
+
+  return { isIndex, entries };
+};
+
+const isModifiedSince = (entry: SitemapEntry, since?: Date): boolean => {
+  if (!since || !entry.lastmod) return true;
+  const modified = new Date(entry.lastmod);
+  return isNaN(modified.getTime()) || modified >= since;
+};
+
+// Uses the URL as-is when it already points to an XML file, otherwise
+// looks for Sitemap: lines in robots.txt and falls back to /sitemap.xml
+export const discoverSitemapUrls = async (url: string): Promise<string[]> => {
+  const parsed = new URL(url);
+  if (/\.xml(\.gz)?$/i.test(parsed.pathname)) {
+    return [parsed.href];
+  }
+
+  const robots = await fetchRobotsPolicy(parsed.origin);
+  if (robots && robots.sitemaps.length > 0) {
+    return robots.sitemaps;
+  }
+  return [`${parsed.origin}/sitemap.xml`];
+};
+
+export const collectSitemapUrls = async (sitemapUrls: string[], options: SitemapOptions): Promise<SitemapEntry[]> => {
+  const log = options.onLog || (() => {});
+  const seenSitemaps = new Set<string>();
+  const seenUrls = new Set<string>();
+  const results: SitemapEntry[] = [];
+  let skippedOld = 0;
+
+  const visit = async (sitemapUrl: string, level: number): Promise<void> => {
+    if (results.length >= options.maxUrls || seenSitemaps.has(sitemapUrl)) return;
+    seenSitemaps.add(sitemapUrl);
+
+    if (/\.gz$/i.test(sitemapUrl)) {
+      log(`Skipping compressed sitemap (not supported through proxies): ${sitemapUrl}`, 'warning');
+      return;
+    }
+
+    log(`Reading sitemap: ${sitemapUrl}`, 'info');
+    let sitemap: ParsedSitemap;
+    try {
+      const { html } = await fetchUrlContent(sitemapUrl);
+      sitemap = parseSitemap(html);
+    } catch (error: any) {
+      log(`Sitemap failed: ${sitemapUrl} (${error.message})`, 'error');
+      return;
+    }
+
+    const fresh = sitemap.entries.filter(entry => isModifiedSince(entry, options.since));
+    skippedOld += sitemap.entries.length - fresh.length;
+
+    if (sitemap.isIndex) {
+      log(`Sitemap index with ${sitemap.entries.length} child sitemaps.`, 'info');
+      if (level >= MAX_INDEX_DEPTH) {
+        log(`Sitemap index nesting too deep. Ignoring children of ${sitemapUrl}`, 'warning');
+        return;
+      }
+      for (const child of fresh) {
+        await visit(child.url, level + 1);
+      }
+      return;
+    }
+
+    for (const entry of fresh) {
+      if (results.length >= options.maxUrls) break;
+      if (seenUrls.has(entry.url)) continue;
+      seenUrls.add(entry.url);
+      results.push(entry);
+    }
+  };
+
+  for (const sitemapUrl of sitemapUrls) {
+    await visit(sitemapUrl, 0);
+  }
+
+  if (skippedOld > 0) {
+    log(`Filtered out ${skippedOld} entries by <lastmod>.`, 'info');
+  }
+  return results;
+};
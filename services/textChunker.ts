@@ -0,0 +1,44 @@
+// Splits long text for model calls without cutting through paragraphs where possible
+
+// Burmese ends sentences with ။ (U+104B), which is not followed by a space
+const SENTENCE_END = /(?<=[.!?။])\s*/;
+
+const splitOversized = (paragraph: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  paragraph.split(SENTENCE_END).forEach(sentence => {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+    // A single sentence longer than the limit is cut hard
+    while (current.length > maxChars) {
+      pieces.push(current.substring(0, maxChars));
+      current = current.substring(maxChars);
+    }
+  });
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+// Greedily packs whole paragraphs into chunks of at most `maxChars`
+export const chunkText = (text: string, maxChars: number): string[] => {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => paragraph.length > maxChars ? splitOversized(paragraph, maxChars) : [paragraph]);
+
+  const chunks: string[] = [];
+  let current = '';
+  paragraphs.forEach(paragraph => {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
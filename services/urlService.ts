@@ -0,0 +1,141 @@
+import { CrawlScope, UrlRule } from '../types';
+
+// Public suffixes with two labels, where the registrable domain is three labels deep
+const MULTI_PART_SUFFIXES = [
+  'gov.mm', 'com.mm', 'org.mm', 'net.mm', 'edu.mm',
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk',
+  'com.au', 'net.au', 'org.au',
+  'co.jp', 'co.th', 'go.th', 'co.in', 'co.kr',
+  'com.sg', 'gov.sg', 'com.my', 'com.cn', 'com.hk'
+];
+
+export const getRegistrableDomain = (hostname: string): string => {
+  const host = hostname.toLowerCase();
+
+  // IP addresses have no registrable domain
+  if (/^\d+(\.\d+){3}$/.test(host) || host.includes(':')) return host;
+
+  const labels = host.split('.');
+  if (labels.length <= 2) return host;
+
+  const suffix = labels.slice(-2).join('.');
+  return labels.slice(MULTI_PART_SUFFIXES.includes(suffix) ? -3 : -2).join('.');
+};
+
+// Directory of the start URL, e.g. https://site.com/news/123 -> /news/
+export const getDefaultPathPrefix = (url: string): string => {
+  try {
+    const { pathname } = new URL(url);
+    return pathname.substring(0, pathname.lastIndexOf('/') + 1) || '/';
+  } catch (e) {
+    return '/';
+  }
+};
+
+export const isInScope = (candidate: string, rootUrl: string, scope: CrawlScope, pathPrefix?: string): boolean => {
+  if (scope === 'any') return true;
+
+  try {
+    const target = new URL(candidate);
+    const root = new URL(rootUrl);
+
+    switch (scope) {
+      case 'same-host':
+        return target.hostname === root.hostname;
+      case 'same-domain':
+        return getRegistrableDomain(target.hostname) === getRegistrableDomain(root.hostname);
+      case 'path-prefix':
+        return target.hostname === root.hostname &&
+               target.pathname.startsWith(pathPrefix || getDefaultPathPrefix(rootUrl));
+    }
+  } catch (e) {
+    // invalid url
+  }
+  return false;
+};
+
+export const DEFAULT_TRACKING_PARAMS = [
+  'utm_*', 'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid',
+  'mc_cid', 'mc_eid', 'igshid', '_ga', '_gl'
+];
+
+const isTrackingParam = (name: string, trackingParams: string[]): boolean => {
+  const key = name.toLowerCase();
+  return trackingParams.some(param => {
+    const pattern = param.trim().toLowerCase();
+    if (!pattern) return false;
+    return pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern;
+  });
+};
+
+// Normalizes a URL so that trivially different variants compare equal.
+// The URL parser already lowercases the host and drops default ports.
+export const canonicalizeUrl = (url: string, trackingParams: string[] = DEFAULT_TRACKING_PARAMS): string => {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+
+    const kept = [...parsed.searchParams.entries()]
+      .filter(([name]) => !isTrackingParam(name, trackingParams))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(kept).toString();
+
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+    }
+
+    return parsed.href;
+  } catch (e) {
+    return url;
+  }
+};
+
+// Glob: `**` matches anything, `*` anything except `/`, `?` a single character.
+// Globs must match the whole URL; regexes may match anywhere in it.
+export const compileUrlRule = (rule: UrlRule): RegExp => {
+  if (rule.syntax === 'regex') {
+    return new RegExp(rule.pattern, 'i');
+  }
+
+  let source = '';
+  for (let i = 0; i < rule.pattern.length; i++) {
+    const char = rule.pattern[i];
+    if (char === '*' && rule.pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+};
+
+export const validateUrlRule = (rule: UrlRule): string | null => {
+  if (!rule.pattern.trim()) return 'Pattern is empty';
+  try {
+    compileUrlRule(rule);
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+};
+
+export interface UrlRuleMatch {
+  allowed: boolean;
+  rule?: UrlRule; // Undefined when no rule matched
+}
+
+// When no rule matches, the URL is allowed only if there are no include rules
+export const matchUrlRules = (url: string, rules: UrlRule[]): UrlRuleMatch => {
+  for (const rule of rules) {
+    if (validateUrlRule(rule)) continue;
+    if (compileUrlRule(rule).test(url)) {
+      return { allowed: rule.action === 'include', rule };
+    }
+  }
+  return { allowed: !rules.some(rule => rule.action === 'include') };
+};
@@ -0,0 +1,186 @@
+import { MyanmarEncoding, PageMetadata } from '../types';
+import { ParsedPage } from './crawlerService';
+
+// Zawgyi reuses Unicode Myanmar code points with different meanings, so the
+// bytes are valid either way and the encoding has to be inferred from how
+// the characters are ordered and combined.
+
+export interface EncodingDetection {
+  encoding: MyanmarEncoding;
+  confidence: number; // 0..1, certainty of `encoding`
+}
+
+// Convert only above this confidence; mixed pages below it are left as-is
+export const ZAWGYI_THRESHOLD = 0.75;
+
+const MYANMAR_CHARS = /[\u1000-\u109f]/g;
+
+// [pattern, weight]: each match counts toward that encoding
+const ZAWGYI_SIGNALS: [RegExp, number][] = [
+  [/[\u1060-\u1097]/g, 3], // Precomposed stacks, kinzi and medial variants live here in Zawgyi
+  [/(^|[^\u1000-\u1021\u103b-\u103e\u1039\u1031])\u1031[\u1000-\u1021]/g, 2], // E-vowel typed before its consonant
+  [/(^|[^\u1000-\u1021])\u103b[\u1000-\u1021]/g, 2], // Ya-yit typed before its consonant
+  [/\u1039(?![\u1000-\u1021])/g, 2], // Asat at U+1039
+  [/[\u1033\u1034]/g, 1] // Long u / uu glyph variants
+];
+
+const UNICODE_SIGNALS: [RegExp, number][] = [
+  // Virama stacking (C + U+1039 + C) is left out: Zawgyi asat before the next syllable looks the same
+  [/\u1004\u103a\u1039/g, 3], // Kinzi
+  [/[\u1004\u1010\u1014\u100a]\u103a/g, 2], // Asat on finals that never take Zawgyi's ya-pin
+  [/[\u1000-\u1021][\u103b-\u103e]*\u1031/g, 1], // E-vowel stored after its consonant
+  [/\u103e/g, 1] // Medial ha; Zawgyi uses U+103D for it
+];
+
+const countSignals = (text: string, signals: [RegExp, number][]): number =>
+  signals.reduce((total, [pattern, weight]) => total + (text.match(pattern)?.length || 0) * weight, 0);
+
+export const detectMyanmarEncoding = (text: string): EncodingDetection => {
+  const myanmarCount = text.match(MYANMAR_CHARS)?.length || 0;
+  if (myanmarCount === 0) return { encoding: 'none', confidence: 1 };
+
+  const zawgyi = countSignals(text, ZAWGYI_SIGNALS);
+  const unicode = countSignals(text, UNICODE_SIGNALS);
+  if (zawgyi + unicode === 0) return { encoding: 'unicode', confidence: 0.5 };
+
+  // Laplace smoothing keeps a handful of matches from claiming certainty
+  const zawgyiShare = (zawgyi + 1) / (zawgyi + unicode + 2);
+  return zawgyiShare > 0.5
+    ? { encoding: 'zawgyi', confidence: zawgyiShare }
+    : { encoding: 'unicode', confidence: 1 - zawgyiShare };
+};
+
+// One-to-many code point mapping, applied in a single pass so outputs are never remapped
+const CHAR_MAP: Record<string, string> = {
+  '\u200b': '',
+  '\u1033': '\u102f',
+  '\u1034': '\u1030',
+  '\u1039': '\u103a',
+  '\u103a': '\u103b',
+  '\u103b': '\u103c',
+  '\u103c': '\u103d',
+  '\u103d': '\u103e',
+  '\u105a': '\u102b\u103a',
+  '\u1060': '\u1039\u1000',
+  '\u1061': '\u1039\u1001',
+  '\u1062': '\u1039\u1002',
+  '\u1063': '\u1039\u1003',
+  '\u1065': '\u1039\u1005',
+  '\u1066': '\u1039\u1006',
+  '\u1067': '\u1039\u1006',
+  '\u1068': '\u1039\u1007',
+  '\u1069': '\u1039\u1008',
+  '\u106a': '\u1009',
+  '\u106b': '\u100a',
+  '\u106c': '\u1039\u100b',
+  '\u106d': '\u1039\u100c',
+  '\u106e': '\u100d\u1039\u100d',
+  '\u106f': '\u100d\u1039\u100e',
+  '\u1070': '\u1039\u100f',
+  '\u1071': '\u1039\u1010',
+  '\u1072': '\u1039\u1010',
+  '\u1073': '\u1039\u1011',
+  '\u1074': '\u1039\u1011',
+  '\u1075': '\u1039\u1012',
+  '\u1076': '\u1039\u1013',
+  '\u1077': '\u1039\u1014',
+  '\u1078': '\u1039\u1015',
+  '\u1079': '\u1039\u1016',
+  '\u107a': '\u1039\u1017',
+  '\u107b': '\u1039\u1018',
+  '\u107c': '\u1039\u1019',
+  '\u107d': '\u103b',
+  '\u107e': '\u103c',
+  '\u107f': '\u103c',
+  '\u1080': '\u103c',
+  '\u1081': '\u103c',
+  '\u1082': '\u103c',
+  '\u1083': '\u103c',
+  '\u1084': '\u103c',
+  '\u1085': '\u1039\u101c',
+  '\u1086': '\u103f',
+  '\u1087': '\u103e',
+  '\u1088': '\u103e\u102f',
+  '\u1089': '\u103e\u1030',
+  '\u108a': '\u103d\u103e',
+  // Kinzi is stored after the consonant in Zawgyi; U+1064 marks it until reordering
+  '\u108b': '\u1064\u102d',
+  '\u108c': '\u1064\u102e',
+  '\u108d': '\u1064\u1036',
+  '\u108e': '\u102d\u1036',
+  '\u108f': '\u1014',
+  '\u1090': '\u101b',
+  '\u1091': '\u100f\u1039\u100d',
+  '\u1092': '\u100b\u1039\u100c',
+  '\u1093': '\u1039\u1018',
+  '\u1094': '\u1037',
+  '\u1095': '\u1037',
+  '\u1096': '\u1039\u1010\u103d',
+  '\u1097': '\u100b\u1039\u100b'
+};
+
+const CONSONANT = '[\u1000-\u1021\u1023-\u102a\u103f]';
+const STACK = `${CONSONANT}(?:\u1039${CONSONANT})?`;
+
+// Applied in order after CHAR_MAP; input is already in Unicode code points, Zawgyi order
+const REORDER_RULES: [RegExp, string][] = [
+  // Zero and seven used as the look-alike letters wa and ra
+  [/\u1040(?=[\u102b-\u103e])/g, '\u101d'],
+  [/\u1047(?=[\u102b-\u103e])/g, '\u101b'],
+  [/\u1031\u1040/g, '\u1031\u101d'],
+  [/\u1031\u1047/g, '\u1031\u101b'],
+  // Kinzi moves in front of the syllable (and its prefixed vowel/medial)
+  [new RegExp(`(\u1031)?(\u103c)?(${CONSONANT})\u1064`, 'g'), '\u1004\u103a\u1039$1$2$3'],
+  // Prefixed medial ra and e-vowel follow their consonant cluster in Unicode
+  [new RegExp(`\u103c(${STACK})`, 'g'), '$1\u103c'],
+  [new RegExp(`\u1031(${STACK})([\u103b-\u103e]*)`, 'g'), '$1$2\u1031'],
+  // Independent vowels written with dependent marks
+  [/\u1025\u103a/g, '\u1009\u103a'],
+  [/\u1025\u102e/g, '\u1026'],
+  [/\u1025(?=\u1039)/g, '\u1009'],
+  // Vowel and tone mark storage order
+  [/([\u102f\u1030])([\u102d\u102e\u1032])/g, '$2$1'],
+  [/\u1036([\u102d-\u1032])/g, '$1\u1036'],
+  [/\u1037([\u102d-\u1032\u1036])/g, '$1\u1037'],
+  [/\u103a\u1037/g, '\u1037\u103a'],
+  [/\u1038([\u1036\u1037\u103a])/g, '$1\u1038'],
+  // Duplicate marks are invisible in Zawgyi fonts but break Unicode rendering
+  [/([\u102b-\u103e])\1+/g, '$1']
+];
+
+const sortMedials = (text: string): string =>
+  text.replace(/[\u103b-\u103e]{2,}/g, medials => [...new Set(medials)].sort().join(''));
+
+export const zawgyiToUnicode = (text: string): string => {
+  let output = text.replace(/[\u200b\u1033-\u103d\u105a\u1060-\u1097]/g, char => CHAR_MAP[char] ?? char);
+  REORDER_RULES.forEach(([pattern, replacement]) => {
+    output = output.replace(pattern, replacement);
+  });
+  return sortMedials(output);
+};
+
+const METADATA_TEXT_KEYS: ('headline' | 'description' | 'siteName' | 'section')[] = ['headline', 'description', 'siteName', 'section'];
+const METADATA_LIST_KEYS: ('authors' | 'keywords')[] = ['authors', 'keywords'];
+
+// Converts every human-readable string of a parsed page; URLs and dates are left alone
+export const convertParsedPage = (parsed: ParsedPage): ParsedPage => {
+  const metadata: PageMetadata = { ...parsed.metadata };
+  METADATA_TEXT_KEYS.forEach(key => {
+    const value = metadata[key];
+    if (value) metadata[key] = zawgyiToUnicode(value);
+  });
+  METADATA_LIST_KEYS.forEach(key => {
+    const values = metadata[key];
+    if (values) metadata[key] = values.map(zawgyiToUnicode);
+  });
+
+  return {
+    ...parsed,
+    title: zawgyiToUnicode(parsed.title),
+    text: zawgyiToUnicode(parsed.text),
+    fields: parsed.fields && Object.fromEntries(
+      Object.entries(parsed.fields).map(([name, value]) => [name, zawgyiToUnicode(value)])
+    ),
+    metadata
+  };
+};
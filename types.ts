@@ -6,21 +6,237 @@ export enum CrawlStatus {
   ERROR = 'ERROR'
 }
 
+export type CrawlMode = 'single' | 'pagination' | 'link-follow' | 'sitemap' | 'listing';
+
+export type FetchBackendId = 'proxy-chain' | 'local-proxy' | 'direct';
+
+export interface ProxyConfig {
+  id: string;
+  name: string;
+  template: string; // {url} is replaced with the encoded target, {rawUrl} with it as-is
+  format: 'text' | 'allorigins-json'; // How the proxy wraps the response body
+  enabled: boolean;
+  builtIn?: boolean;
+}
+
+export type FailureReason =
+  | 'timeout'
+  | 'all-proxies-failed'
+  | 'http-error'
+  | 'rate-limited'
+  | 'soft-404'
+  | 'empty-content'
+  | 'parse-error';
+
+export type ContentFormat = 'text' | 'markdown' | 'html';
+
+export type LinkStyle = 'inline' | 'footnote'; // Markdown link placement
+
+export type AiTask = 'off' | 'summary' | 'extract';
+
+export type LlmProviderId = 'gemini' | 'mock';
+
+export type LlmErrorKind =
+  | 'missing-key'
+  | 'auth'
+  | 'rate-limited'
+  | 'budget-exceeded'
+  | 'blocked'
+  | 'invalid-response'
+  | 'request-failed';
+
+export interface AiError {
+  task: 'summary' | 'extract' | 'translate';
+  kind: LlmErrorKind;
+  message: string;
+}
+
+export type SchemaFieldType = 'string' | 'number' | 'boolean' | 'date' | 'string[]';
+
+export interface SchemaField {
+  id: string;
+  name: string; // Key in the extracted record
+  type: SchemaFieldType;
+  description: string; // Tells the model what to put here
+  required: boolean;
+}
+
+export type ExtractedValue = string | number | boolean | string[] | null;
+
+export type ExtractedRecord = Record<string, ExtractedValue>;
+
+export interface PageTranslation {
+  language: string; // Target language, as chosen for the crawl
+  title: string;
+  content: string; // Same format as the page's `content`
+}
+
+export type ChangeStatus = 'new' | 'changed' | 'unchanged' | 'gone';
+
+export type MyanmarEncoding = 'unicode' | 'zawgyi' | 'none';
+
+export type CrawlScope = 'same-host' | 'same-domain' | 'path-prefix' | 'any';
+
+export type PaginationCombine = 'product' | 'zip'; // Cartesian product, or lists paired by position
+
+// Pagination mode: keep probing IDs above the highest one fetched while the tab is open
+export interface WatchConfig {
+  intervalMinutes: number; // Between probe rounds
+  maxMisses: number; // A round ends after this many consecutive IDs without an article
+  summarizeNew: boolean; // Summarize articles found by watching, whatever aiTask is
+}
+
+export type NextLinkSource = 'selector' | 'rel-next' | 'pager';
+
+// Listing mode: walk index pages via their next-page link and crawl only the article links on them
+export interface ListingConfig {
+  articleSelector?: string; // Links, or containers of links, to articles
+  articlePattern?: string; // Regex the article URL must match
+  nextSelector?: string; // Overrides rel="next" and pager detection
+  maxListingPages: number;
+}
+
 export interface CrawlConfig {
+  mode: CrawlMode;
   startUrl: string;
   maxPages: number;
   depth: number;
-  ignoreImages: boolean;
+  ignoreImages: boolean; // Leave images out of stored content and the asset inventory
+  collectAssets: boolean; // Record images and document links per page
+  scope: CrawlScope;
+  pathPrefix?: string; // Only used with 'path-prefix' scope
+  urlRules: UrlRule[]; // Checked in order, first match wins
+  trackingParams: string[]; // Query params stripped during canonicalization, `utm_*` style prefixes allowed
+  respectRobots: boolean; // Enforce robots.txt Disallow and Crawl-delay
+  convertZawgyi: boolean; // Rewrite detected Zawgyi text as Myanmar Unicode before storing
+  contentFormat: ContentFormat; // How page content is stored
+  linkStyle: LinkStyle;
+  aiTask: AiTask; // Gemini post-processing per page
+  extractionSchema: SchemaField[]; // Used when aiTask is 'extract'
+  translateTo?: string; // Target language name for AI translation; unset means no translation
+  llmProvider?: LlmProviderId; // Missing on sessions from before providers existed: gemini
+  llmModel?: string;
+  llmRequestsPerMinute?: number;
+  llmTokenBudget?: number; // Estimated tokens per crawl; 0 means unlimited
+  compareWithSessionId?: string; // Saved run that pages are classified against
+  concurrency: number;
+  perHostConcurrency: number;
+  perHostDelayMs: number;
+  fetchBackend: FetchBackendId;
+  maxRetries: number; // Extra attempts for transient failures
+  retryBaseDelayMs: number; // Doubles with each attempt
+  startPage?: number; // Pagination mode range; descending when endPage is lower
+  endPage?: number;
+  pageStep?: number;
+  placeholderValues?: Record<string, string>; // Value specs for template placeholders other than {{page}}
+  placeholderCombine?: PaginationCombine;
+  stopAfterMisses?: number; // Drop the rest of a series after this many missing IDs in a row; 0 never
+  watch?: WatchConfig; // Pagination mode only; unset when not watching
+  listing?: ListingConfig; // Listing mode only
+  sitemapSince?: string; // Sitemap mode <lastmod> cutoff (YYYY-MM-DD)
+  extractionProfiles?: ExtractionProfile[]; // Snapshot taken when the crawl starts
+}
+
+export interface UrlRule {
+  id: string;
+  action: 'include' | 'exclude';
+  syntax: 'glob' | 'regex';
+  pattern: string;
+}
+
+export interface ExtractionField {
+  name: string;
+  selector: string;
+  attribute?: string; // Read this attribute instead of the element text
+  multiple?: boolean; // Collect every match, joined with newlines
+}
+
+export interface ExtractionProfile {
+  id: string;
+  name: string;
+  enabled: boolean;
+  matchType: 'host' | 'glob' | 'regex'; // 'host' also matches subdomains
+  match: string;
+  contentSelector?: string; // Replaces the built-in main container guess
+  titleSelector?: string;
+  removeSelectors: string[]; // Removed in addition to the built-in junk list
+  fields: ExtractionField[];
+}
+
+export interface QueueEntry {
+  url: string;
+  depth: number; // 0 for seed URLs
+  parentUrl?: string;
+  attempt?: number; // Retries already made
+  notBefore?: number; // Retry backoff: not picked before this timestamp
+  pageId?: number; // Pagination ID the URL was generated from
+  series?: string; // Pagination: values of the other placeholders, for per-series auto-stop
+  isListing?: boolean; // Listing mode: an index page, parsed for links and not stored
+  listingPage?: number; // Listing mode: this index page's number, or for articles the one they were found on
+  watchProbe?: boolean; // Watch mode probe: a miss is expected and not recorded as a failure
+}
+
+export interface PageMetadata {
+  headline?: string;
+  description?: string;
+  authors?: string[];
+  publishedAt?: string; // ISO 8601 in the page's own UTC offset when the source date parses
+  modifiedAt?: string;
+  image?: string; // Absolute URL
+  language?: string;
+  siteName?: string;
+  section?: string;
+  keywords?: string[];
+  type?: string; // JSON-LD @type or og:type
+}
+
+export interface PageAsset {
+  type: 'image' | 'document';
+  url: string; // Absolute
+  alt?: string; // Images
+  caption?: string; // <figcaption> or title attribute
+  width?: number; // Declared in the markup, not measured
+  height?: number;
+  text?: string; // Documents: link text
+  extension?: string; // Documents: pdf, docx, ...
 }
 
 export interface CrawledPage {
   url: string;
   title: string;
-  content: string; // Text content
+  content: string; // Text content, in `contentFormat`
+  contentFormat?: ContentFormat; // Missing on pages from before formats existed: plain text
   status: 'pending' | 'success' | 'failed';
   timestamp: number;
   linksFound: number;
+  canonicalUrl?: string;
+  httpStatus?: number;
+  finalUrl?: string; // After redirects
+  contentType?: string;
+  fetchBackend?: string; // Backend (and proxy) that served the page
+  depth?: number;
+  parentUrl?: string;
+  pageId?: number; // Pagination ID the URL was generated from
+  foundByWatch?: boolean; // Discovered by watch mode after the initial range
+  isListing?: boolean; // Only on failure records of listing mode index pages
+  listingPage?: number; // Listing mode: index page the article was found on (its URL is parentUrl)
   error?: string;
+  failureReason?: FailureReason;
+  attempts?: number;
+  profileId?: string; // Extraction profile applied to this page
+  fields?: Record<string, string>; // Values captured by the profile's fields
+  metadata?: PageMetadata;
+  assets?: PageAsset[];
+  summary?: string; // AI summary of the whole page
+  translation?: PageTranslation; // `title` and `content` stay in the original language
+  extracted?: ExtractedRecord; // Schema-driven AI extraction result
+  extractionErrors?: string[]; // Validation problems in `extracted`
+  aiErrors?: AiError[]; // AI calls that failed for this page
+  encoding?: MyanmarEncoding; // Detected encoding of the Burmese text as served
+  encodingConfidence?: number;
+  convertedFromZawgyi?: boolean;
+  contentHash?: string; // Of the extracted title and text, before AI post-processing
+  change?: ChangeStatus; // Against the compared run; unset when not comparing
 }
 
 export interface LogEntry {
@@ -33,4 +249,17 @@ export interface LogEntry {
 export interface SummaryResult {
   url: string;
   summary: string;
-}
\ No newline at end of file
+}
+
+export interface DigestTopic {
+  title: string;
+  summary: string;
+  pageUrls: string[]; // Source pages, in crawl order
+}
+
+export interface CrawlDigest {
+  generatedAt: number;
+  pageCount: number; // Pages the digest was built from
+  overview: string;
+  topics: DigestTopic[];
+}